@@ -8,9 +8,12 @@
  * - Managing settings persistence
  */
 
+import * as crypto from "node:crypto";
 import * as fs from "node:fs";
+import * as http from "node:http";
 import * as path from "node:path";
-import { parse } from "shell-quote";
+import { fileURLToPath } from "node:url";
+import { parse, quote } from "shell-quote";
 
 // ============================================================================
 // TYPES
@@ -18,10 +21,10 @@ import { parse } from "shell-quote";
 
 export type PermissionLevel = "minimal" | "low" | "medium" | "high" | "bypassed";
 
-export type PermissionMode = "ask" | "block";
+export type PermissionMode = "ask" | "block" | "shadow";
 
 export const LEVELS: PermissionLevel[] = ["minimal", "low", "medium", "high", "bypassed"];
-export const PERMISSION_MODES: PermissionMode[] = ["ask", "block"];
+export const PERMISSION_MODES: PermissionMode[] = ["ask", "block", "shadow"];
 
 export const LEVEL_INDEX: Record<PermissionLevel, number> = {
   minimal: 0,
@@ -42,6 +45,7 @@ export const LEVEL_INFO: Record<PermissionLevel, { label: string; desc: string }
 export const PERMISSION_MODE_INFO: Record<PermissionMode, { label: string; desc: string }> = {
   ask: { label: "Ask", desc: "Prompt when permission is required" },
   block: { label: "Block", desc: "Block instead of prompting" },
+  shadow: { label: "Shadow", desc: "Allow everything, record what the candidate policy would prompt for" },
 };
 
 export const LEVEL_ALLOWED_DESC: Record<PermissionLevel, string> = {
@@ -52,29 +56,272 @@ export const LEVEL_ALLOWED_DESC: Record<PermissionLevel, string> = {
   bypassed: "all operations",
 };
 
+/** Side effects a command is known to have, independent of its level */
+export type Capability = "network" | "writesFiles" | "deletesFiles" | "publishes";
+
+export const CAPABILITIES: Capability[] = ["network", "writesFiles", "deletesFiles", "publishes"];
+
+export const CAPABILITY_INFO: Record<Capability, { label: string; desc: string }> = {
+  network: { label: "Network", desc: "Connects to remote hosts" },
+  writesFiles: { label: "Writes files", desc: "Creates, modifies or moves files" },
+  deletesFiles: { label: "Deletes files", desc: "Removes files or directories" },
+  publishes: { label: "Publishes", desc: "Sends local data or artifacts to a remote" },
+};
+
 export interface Classification {
   level: PermissionLevel;
   dangerous: boolean;
+  /** Known side effects, in CAPABILITIES order */
+  capabilities: Capability[];
+}
+
+export interface SegmentExplanation {
+  /** Segment tokens joined with spaces */
+  command: string;
+  classification: Classification;
+  /** Why this segment got its level */
+  reason: string;
+}
+
+export interface CommandExplanation {
+  command: string;
+  /** Command after prefix mappings */
+  normalizedCommand: string;
+  /** Final classification (same as classifyCommand) */
+  classification: Classification;
+  segments: SegmentExplanation[];
+  /** Whole-command reasons (overrides, shell tricks, redirections, pipes) */
+  reasons: string[];
 }
 
 // ============================================================================
 // CONFIGURATION TYPES
 // ============================================================================
 
+/**
+ * Argv-aware override rule, matched against each command segment
+ * All given predicates must match; at least one is required
+ */
+export interface OverrideRule {
+  /** Command name glob (path stripped), e.g. "git" or "docker*" */
+  command?: string;
+  /** Globs for the leading positional arguments, in order, e.g. ["push"] or ["compose", "up"] */
+  args?: string[];
+  /** Flags that must all be present; short flags also match inside clusters (-f matches -rf) */
+  flags?: string[];
+  /** Glob that at least one argument must match, e.g. "/dev/*" */
+  anyArg?: string;
+  /** Regular expression tested against the segment text */
+  regex?: string;
+}
+
+/** Glob string (matched against the whole command) or argv-aware rule (matched per segment) */
+export type OverrideEntry = string | OverrideRule;
+
 export interface PermissionConfig {
   /** Override patterns to force specific permission levels */
   overrides?: {
-    minimal?: string[];
-    low?: string[];
-    medium?: string[];
-    high?: string[];
-    dangerous?: string[];
+    minimal?: OverrideEntry[];
+    low?: OverrideEntry[];
+    medium?: OverrideEntry[];
+    high?: OverrideEntry[];
+    dangerous?: OverrideEntry[];
   };
   /** Prefix mappings to normalize commands before classification */
   prefixMappings?: Array<{
     from: string;
     to: string;
   }>;
+  /** Path rules evaluated for every write/edit tool call */
+  writePaths?: WritePathRules;
+  /** Sensitive files that prompt before being read, at every level */
+  secretPaths?: SecretPathRules;
+  /** Required levels for tools other than bash/write/edit */
+  tools?: ToolPolicies;
+  /** Read-only heuristic for python/node one-liners */
+  inlineScripts?: InlineScriptRules;
+  /** Capability rules for bash commands */
+  capabilities?: {
+    /** Commands with any of these capabilities always require confirmation */
+    confirm?: Capability[];
+  };
+  /** Audit log settings (only read from the global config, or the system policy when it's locked) */
+  audit?: {
+    /** Record every permission decision (default: true) */
+    enabled?: boolean;
+    /** JSONL file path (default: ~/.pi/agent/permission-audit.jsonl) */
+    path?: string;
+  };
+  /** Git-specific safety rules */
+  git?: GitRules;
+  /** Safer equivalents suggested when a command is blocked */
+  rewrites?: RewriteRules;
+  /** Move files removed with simple rm commands into a per-session trash */
+  trash?: TrashSettings;
+  /** Resource limits applied to bash commands that run, by the level they require */
+  limits?: CommandLimitRules;
+  /** Commands that operate outside the project (cd, git -C, make -C) */
+  directories?: DirectoryRules;
+  /** Variables that change what a command runs when assigned in front of it (LD_PRELOAD=... cmd) */
+  environment?: EnvironmentRules;
+  /** Classify package.json scripts and Makefile targets by what they run */
+  scripts?: ScriptRules;
+  /** Candidate policy evaluated in shadow mode, layered on the active config like a project config */
+  shadow?: PermissionConfig;
+  /** Named rule sets selected with PI_PERMISSION_PROFILE (e.g. per ralph-loop agent) */
+  profiles?: Record<string, PermissionProfile>;
+  /** Headless approval channel for print/RPC mode (only read from the global config) */
+  approvals?: ApprovalSettings;
+}
+
+export interface ApprovalSettings {
+  /** Channel non-interactive sessions ask before blocking: file:/dir, http://127.0.0.1:port/path or unix:/path.sock */
+  url?: string;
+  /** Seconds to wait for an answer before denying (default: 60) */
+  timeoutSeconds?: number;
+  /** Interactive sessions answer approval requests from subagents they spawn */
+  serve?: boolean;
+}
+
+export type ConfigLayer = "global" | "project" | "profile" | "system";
+
+/** A profile's rules are layered on the active config; level and mode replace the session's */
+export interface PermissionProfile extends Omit<PermissionConfig, "profiles" | "shadow" | "audit" | "approvals"> {
+  level?: PermissionLevel;
+  mode?: PermissionMode;
+}
+
+export interface ProjectConfigInfo {
+  /** Absolute path to the project config file */
+  path: string;
+  /** sha256 of the file contents, used for trust tracking */
+  hash: string;
+  /** True if the user has trusted this exact file contents */
+  trusted: boolean;
+  config: PermissionConfig;
+}
+
+/** Admin-managed policy shared by every user of the machine */
+export interface SystemPolicy {
+  /** Absolute path to the policy file */
+  path: string;
+  /** Caps the level at maxLevel, forbids bypassed and shadow mode, and ignores loosening rules from other layers */
+  locked: boolean;
+  /** Highest level users can select (bypassed when not locked) */
+  maxLevel: PermissionLevel;
+  /** Rules layered on top of every other config layer */
+  config: PermissionConfig;
+  /** Why the policy file can't be used - the policy then fails closed to a locked Minimal */
+  error?: string;
+}
+
+export interface ToolRule {
+  /** Tool name glob, e.g. "lsp" or "mcp_*" */
+  tool: string;
+  /** Argument predicates (all must match), values are globs, e.g. { "action": "rename" } */
+  args?: Record<string, string>;
+  level: PermissionLevel;
+}
+
+export interface ToolPolicies {
+  rules?: ToolRule[];
+  /** Level required for tools no rule matches (default: medium) */
+  default?: PermissionLevel;
+}
+
+export interface InlineScriptRules {
+  /** Classify one-liners that pass the heuristic as Minimal (default: true) */
+  enabled?: boolean;
+  /** Longest one-liner the heuristic considers, in characters (default: 300) */
+  maxLength?: number;
+  /** Modules one-liners may import on top of the built-in read-only list */
+  allowedModules?: {
+    python?: string[];
+    node?: string[];
+  };
+}
+
+export interface SecretPathRules {
+  /** Extra sensitive path globs on top of the built-in credential list */
+  deny?: string[];
+  /** Exceptions, checked before deny (e.g. test fixtures that look like credentials) */
+  allow?: string[];
+  /** What to do when a sensitive file is read: prompt (default) or block outright */
+  onRead?: "ask" | "block";
+  /** Check the built-in credential list (default: true) */
+  defaults?: boolean;
+}
+
+export interface GitRules {
+  /** Branch globs (e.g. "main", "release/*") that --force-with-lease pushes and remote deletes treat as dangerous */
+  protectedBranches?: string[];
+}
+
+export interface RewriteRule {
+  /** Glob matched against the whole command, or an argv-aware rule matched per segment */
+  match?: OverrideEntry;
+  /** Only match commands that redirect output into a file (> or >>) */
+  redirect?: boolean;
+  /** Hint for the agent, e.g. "use --force-with-lease so the push fails if the remote moved" */
+  suggest: string;
+  /** Regex replacement that turns the command into the safer equivalent */
+  replace?: { from: string; to: string };
+}
+
+export interface RewriteRules {
+  /** Rules tried before the built-in table */
+  rules?: RewriteRule[];
+  /** Use the built-in table (default: true) */
+  defaults?: boolean;
+}
+
+export interface CommandLimits {
+  /** Wall time before the command is killed */
+  timeoutSeconds?: number;
+  /** Combined stdout/stderr bytes kept before the output is cut off */
+  maxOutputBytes?: number;
+  /** CPU time (ulimit -t) */
+  cpuSeconds?: number;
+  /** Virtual memory per process (ulimit -v) */
+  memoryMB?: number;
+  /** Processes for the whole user, not just the command (ulimit -u); raised to MIN_MAX_PROCESSES */
+  maxProcesses?: number;
+}
+
+/** `default` applies to every level; a level's own limits replace it field by field */
+export type CommandLimitRules = Partial<Record<'default' | 'minimal' | 'low' | 'medium' | 'high', CommandLimits>>;
+
+export interface ScriptRules {
+  /** Read package.json scripts and Makefile recipes and classify their bodies (default: false) */
+  resolve?: boolean;
+}
+
+export interface EnvironmentRules {
+  /** Variable name globs that make a command High, on top of the built-in list */
+  dangerous?: string[];
+  /** Exceptions, checked before dangerous (e.g. "PATH" if you trust PATH overrides) */
+  allow?: string[];
+}
+
+export interface DirectoryRules {
+  /** Directories commands may operate in besides the repository root (relative to the root, or absolute/~) */
+  allowedRoots?: string[];
+  /** Commands with side effects elsewhere: one level higher (default), always prompt, or no change */
+  outside?: "raise" | "prompt" | "ignore";
+}
+
+export interface TrashSettings {
+  /** Rewrite simple rm commands to move their targets into the trash; an rm of project files needs only Medium (default: false) */
+  enabled?: boolean;
+}
+
+export interface WritePathRules {
+  /** If non-empty, writes are only permitted inside these paths */
+  allow?: string[];
+  /** Paths that are never written without confirmation (checked before allow) */
+  deny?: string[];
+  /** What to do on a denied path: prompt (default) or block outright */
+  onDeny?: "ask" | "block";
 }
 
 // ============================================================================
@@ -90,6 +337,13 @@ let regexCache: Map<string, RegExp> = new Map();
 /** Maximum cached regex patterns to prevent memory exhaustion */
 const MAX_REGEX_CACHE_SIZE = 500;
 
+let pathRegexCache: Map<string, RegExp> = new Map();
+
+let ruleRegexCache: Map<string, RegExp> = new Map();
+
+/** System policy by file path - read once per session, null when there is no policy file */
+const systemPolicyCache = new Map<string, SystemPolicy | null>();
+
 function getCachedConfig(): PermissionConfig {
   const now = Date.now();
   if (!configCache || now - configCacheTime > CONFIG_CACHE_TTL) {
@@ -116,6 +370,132 @@ function getCachedRegex(pattern: string): RegExp {
 export function invalidateConfigCache(): void {
   configCache = null;
   regexCache.clear();
+  pathRegexCache.clear();
+  ruleRegexCache.clear();
+  systemPolicyCache.clear();
+}
+
+const OVERRIDE_KEYS = ['minimal', 'low', 'medium', 'high', 'dangerous'] as const;
+
+/** Levels that rules may require (bypassed is not a requirement) */
+function isRuleLevel(value: unknown): value is PermissionLevel {
+  return typeof value === 'string' && LEVELS.includes(value as PermissionLevel) && value !== 'bypassed';
+}
+
+/** Max length of a regex in an override rule */
+const MAX_RULE_REGEX_LENGTH = 500;
+
+const OVERRIDE_RULE_FIELDS = new Set(['command', 'args', 'flags', 'anyArg', 'regex']);
+
+/**
+ * Validate an argv-aware override rule
+ * Returns null if the rule is malformed, has an unknown field (a misspelled predicate would widen it) or has no predicates
+ */
+function validateOverrideRule(value: unknown): OverrideRule | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  if (Object.keys(raw).some((key) => !OVERRIDE_RULE_FIELDS.has(key))) return null;
+  const rule: OverrideRule = {};
+
+  const isStringList = (v: unknown): v is string[] =>
+    Array.isArray(v) && v.length > 0 && v.length <= 20 && v.every((s) => typeof s === 'string' && s.length > 0);
+
+  if (raw.command !== undefined) {
+    if (typeof raw.command !== 'string' || raw.command.length === 0) return null;
+    rule.command = raw.command;
+  }
+  if (raw.args !== undefined) {
+    if (!isStringList(raw.args)) return null;
+    rule.args = raw.args;
+  }
+  if (raw.flags !== undefined) {
+    if (!isStringList(raw.flags) || !raw.flags.every((f) => f.startsWith('-'))) return null;
+    rule.flags = raw.flags;
+  }
+  if (raw.anyArg !== undefined) {
+    if (typeof raw.anyArg !== 'string' || raw.anyArg.length === 0) return null;
+    rule.anyArg = raw.anyArg;
+  }
+  if (raw.regex !== undefined) {
+    if (typeof raw.regex !== 'string' || raw.regex.length === 0 || raw.regex.length > MAX_RULE_REGEX_LENGTH) return null;
+    try {
+      new RegExp(raw.regex);
+    } catch {
+      return null;
+    }
+    rule.regex = raw.regex;
+  }
+
+  return Object.keys(rule).length > 0 ? rule : null;
+}
+
+const LIMIT_KEYS = ['default', 'minimal', 'low', 'medium', 'high'] as const;
+
+/** Upper bounds for configured limits */
+const LIMIT_MAXIMUMS: Required<CommandLimits> = {
+  timeoutSeconds: 24 * 60 * 60,
+  maxOutputBytes: 1024 * 1024 * 1024,
+  cpuSeconds: 24 * 60 * 60,
+  memoryMB: 1024 * 1024,
+  maxProcesses: 1_000_000,
+};
+
+/** ulimit -u counts every process the user runs, so a lower cap would break forks outside the command */
+const MIN_MAX_PROCESSES = 256;
+
+/**
+ * Validate a rewrite rule, returning null if it is malformed or matches nothing
+ */
+function validateRewriteRule(value: unknown): RewriteRule | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.suggest !== 'string' || raw.suggest.length === 0 || raw.suggest.length > 500) return null;
+  const rule: RewriteRule = { suggest: raw.suggest };
+
+  if (raw.match !== undefined) {
+    const match = typeof raw.match === 'string' ? (raw.match.length > 0 ? raw.match : null) : validateOverrideRule(raw.match);
+    if (!match) return null;
+    rule.match = match;
+  }
+  if (raw.redirect !== undefined) {
+    if (typeof raw.redirect !== 'boolean') return null;
+    rule.redirect = raw.redirect;
+  }
+  if (!rule.match && !rule.redirect) return null;
+
+  if (raw.replace !== undefined) {
+    const replace = raw.replace as Record<string, unknown> | null;
+    if (!replace || typeof replace.from !== 'string' || typeof replace.to !== 'string') return null;
+    if (replace.from.length === 0 || replace.from.length > MAX_RULE_REGEX_LENGTH) return null;
+    try {
+      new RegExp(replace.from);
+    } catch {
+      return null;
+    }
+    rule.replace = { from: replace.from, to: replace.to };
+  }
+
+  return rule;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === 'string');
+}
+
+const PROFILE_NAME = /^[\w.-]{1,64}$/;
+
+/**
+ * Validate a config nested in another (shadow candidate, profile)
+ * Settings that don't affect classification are dropped
+ */
+function validateNestedRules(config: unknown): PermissionConfig {
+  const rules = validateConfig(config);
+  delete rules.shadow;
+  delete rules.profiles;
+  delete rules.audit;
+  delete rules.approvals;
+  return rules;
 }
 
 /**
@@ -135,13 +515,15 @@ function validateConfig(config: unknown): PermissionConfig {
     const overrides = raw.overrides as Record<string, unknown>;
     result.overrides = {};
     
-    const levels = ['minimal', 'low', 'medium', 'high', 'dangerous'] as const;
-    for (const level of levels) {
+    for (const level of OVERRIDE_KEYS) {
       const patterns = overrides[level];
       if (Array.isArray(patterns)) {
-        // Filter to only valid string patterns, limit count
+        // Keep non-empty glob strings and well-formed rules, limit count
         const validPatterns = patterns
-          .filter((p): p is string => typeof p === 'string' && p.length > 0)
+          .map((p): OverrideEntry | null =>
+            typeof p === 'string' ? (p.length > 0 ? p : null) : validateOverrideRule(p)
+          )
+          .filter((p): p is OverrideEntry => p !== null)
           .slice(0, 100); // Max 100 patterns per level
         if (validPatterns.length > 0) {
           result.overrides[level] = validPatterns;
@@ -164,6 +546,295 @@ function validateConfig(config: unknown): PermissionConfig {
     }
   }
 
+  // Validate write path rules
+  if (raw.writePaths && typeof raw.writePaths === 'object') {
+    const writePaths = raw.writePaths as Record<string, unknown>;
+    const rules: WritePathRules = {};
+
+    for (const key of ['allow', 'deny'] as const) {
+      const patterns = writePaths[key];
+      if (Array.isArray(patterns)) {
+        const validPatterns = patterns
+          .filter((p): p is string => typeof p === 'string' && p.length > 0)
+          .slice(0, 100); // Max 100 patterns per list
+        if (validPatterns.length > 0) {
+          rules[key] = validPatterns;
+        }
+      }
+    }
+
+    if (writePaths.onDeny === 'ask' || writePaths.onDeny === 'block') {
+      rules.onDeny = writePaths.onDeny;
+    }
+
+    if (Object.keys(rules).length > 0) {
+      result.writePaths = rules;
+    }
+  }
+
+  // Validate secret path rules
+  if (raw.secretPaths && typeof raw.secretPaths === 'object') {
+    const secretPaths = raw.secretPaths as Record<string, unknown>;
+    const rules: SecretPathRules = {};
+
+    for (const key of ['allow', 'deny'] as const) {
+      const patterns = secretPaths[key];
+      if (Array.isArray(patterns)) {
+        const validPatterns = patterns
+          .filter((p): p is string => typeof p === 'string' && p.length > 0)
+          .slice(0, 100);
+        if (validPatterns.length > 0) {
+          rules[key] = validPatterns;
+        }
+      }
+    }
+
+    if (secretPaths.onRead === 'ask' || secretPaths.onRead === 'block') {
+      rules.onRead = secretPaths.onRead;
+    }
+    if (typeof secretPaths.defaults === 'boolean') {
+      rules.defaults = secretPaths.defaults;
+    }
+
+    if (Object.keys(rules).length > 0) {
+      result.secretPaths = rules;
+    }
+  }
+
+  // Validate rewrite suggestions
+  if (raw.rewrites && typeof raw.rewrites === 'object') {
+    const rewrites = raw.rewrites as Record<string, unknown>;
+    const rules: RewriteRules = {};
+
+    if (Array.isArray(rewrites.rules)) {
+      const validRules = rewrites.rules
+        .map(validateRewriteRule)
+        .filter((r): r is RewriteRule => r !== null)
+        .slice(0, 100);
+      if (validRules.length > 0) {
+        rules.rules = validRules;
+      }
+    }
+    if (typeof rewrites.defaults === 'boolean') {
+      rules.defaults = rewrites.defaults;
+    }
+
+    if (Object.keys(rules).length > 0) {
+      result.rewrites = rules;
+    }
+  }
+
+  // Validate tool policies
+  if (raw.tools && typeof raw.tools === 'object') {
+    const tools = raw.tools as Record<string, unknown>;
+    const policies: ToolPolicies = {};
+
+    if (Array.isArray(tools.rules)) {
+      const validRules = tools.rules
+        .filter((r): r is ToolRule =>
+          r && typeof r === 'object' &&
+          typeof (r as any).tool === 'string' && (r as any).tool.length > 0 &&
+          isRuleLevel((r as any).level) &&
+          ((r as any).args === undefined || isStringRecord((r as any).args))
+        )
+        .map((r) => (r.args ? { tool: r.tool, args: r.args, level: r.level } : { tool: r.tool, level: r.level }))
+        .slice(0, 100); // Max 100 tool rules
+      if (validRules.length > 0) {
+        policies.rules = validRules;
+      }
+    }
+
+    if (isRuleLevel(tools.default)) {
+      policies.default = tools.default;
+    }
+
+    if (Object.keys(policies).length > 0) {
+      result.tools = policies;
+    }
+  }
+
+  // Validate inline script rules
+  if (raw.inlineScripts && typeof raw.inlineScripts === 'object') {
+    const inline = raw.inlineScripts as Record<string, unknown>;
+    const rules: InlineScriptRules = {};
+    if (typeof inline.enabled === 'boolean') {
+      rules.enabled = inline.enabled;
+    }
+    if (typeof inline.maxLength === 'number' && Number.isInteger(inline.maxLength) && inline.maxLength > 0) {
+      rules.maxLength = Math.min(inline.maxLength, 2000); // Keep the heuristic to short scripts
+    }
+    if (inline.allowedModules && typeof inline.allowedModules === 'object') {
+      const modules = inline.allowedModules as Record<string, unknown>;
+      const allowedModules: NonNullable<InlineScriptRules['allowedModules']> = {};
+      for (const language of ['python', 'node'] as const) {
+        const names = modules[language];
+        if (Array.isArray(names)) {
+          const validNames = names
+            .filter((n): n is string => typeof n === 'string' && /^[\w.@/-]+$/.test(n))
+            .slice(0, 100); // Max 100 modules per language
+          if (validNames.length > 0) allowedModules[language] = validNames;
+        }
+      }
+      if (Object.keys(allowedModules).length > 0) {
+        rules.allowedModules = allowedModules;
+      }
+    }
+    if (Object.keys(rules).length > 0) {
+      result.inlineScripts = rules;
+    }
+  }
+
+  // Validate capability rules
+  if (raw.capabilities && typeof raw.capabilities === 'object') {
+    const capabilities = raw.capabilities as Record<string, unknown>;
+    if (Array.isArray(capabilities.confirm)) {
+      const confirm = CAPABILITIES.filter((c) => (capabilities.confirm as unknown[]).includes(c));
+      if (confirm.length > 0) {
+        result.capabilities = { confirm };
+      }
+    }
+  }
+
+  if (raw.scripts && typeof raw.scripts === 'object') {
+    const scripts = raw.scripts as Record<string, unknown>;
+    result.scripts = {};
+    if (typeof scripts.resolve === 'boolean') {
+      result.scripts.resolve = scripts.resolve;
+    }
+  }
+
+  // Validate environment rules
+  if (raw.environment && typeof raw.environment === 'object') {
+    const environment = raw.environment as Record<string, unknown>;
+    const rules: EnvironmentRules = {};
+    for (const key of ['dangerous', 'allow'] as const) {
+      const names = environment[key];
+      if (Array.isArray(names)) {
+        const validNames = names
+          .filter((n): n is string => typeof n === 'string' && /^[\w*?]+$/.test(n))
+          .slice(0, 100);
+        if (validNames.length > 0) rules[key] = validNames;
+      }
+    }
+    if (Object.keys(rules).length > 0) {
+      result.environment = rules;
+    }
+  }
+
+  // Validate directory rules
+  if (raw.directories && typeof raw.directories === 'object') {
+    const directories = raw.directories as Record<string, unknown>;
+    const rules: DirectoryRules = {};
+    if (Array.isArray(directories.allowedRoots)) {
+      const roots = directories.allowedRoots
+        .filter((r): r is string => typeof r === 'string' && r.length > 0)
+        .slice(0, 50);
+      if (roots.length > 0) rules.allowedRoots = roots;
+    }
+    if (directories.outside === 'raise' || directories.outside === 'prompt' || directories.outside === 'ignore') {
+      rules.outside = directories.outside;
+    }
+    if (Object.keys(rules).length > 0) {
+      result.directories = rules;
+    }
+  }
+
+  // Validate resource limits
+  if (raw.limits && typeof raw.limits === 'object') {
+    const limits = raw.limits as Record<string, unknown>;
+    const rules: CommandLimitRules = {};
+    for (const key of LIMIT_KEYS) {
+      const value = limits[key];
+      if (!value || typeof value !== 'object') continue;
+      const entry: CommandLimits = {};
+      for (const [field, max] of Object.entries(LIMIT_MAXIMUMS) as Array<[keyof CommandLimits, number]>) {
+        const n = (value as Record<string, unknown>)[field];
+        if (typeof n === 'number' && Number.isInteger(n) && n > 0 && n <= max) {
+          entry[field] = field === 'maxProcesses' ? Math.max(n, MIN_MAX_PROCESSES) : n;
+        }
+      }
+      if (Object.keys(entry).length > 0) rules[key] = entry;
+    }
+    if (Object.keys(rules).length > 0) {
+      result.limits = rules;
+    }
+  }
+
+  // Validate audit settings
+  if (raw.audit && typeof raw.audit === 'object') {
+    const audit = raw.audit as Record<string, unknown>;
+    result.audit = {};
+    if (typeof audit.enabled === 'boolean') {
+      result.audit.enabled = audit.enabled;
+    }
+    if (typeof audit.path === 'string' && audit.path.length > 0) {
+      result.audit.path = audit.path;
+    }
+  }
+
+  // Validate git rules
+  if (raw.git && typeof raw.git === 'object') {
+    const git = raw.git as Record<string, unknown>;
+    result.git = {};
+    if (Array.isArray(git.protectedBranches)) {
+      result.git.protectedBranches = git.protectedBranches
+        .filter((b): b is string => typeof b === 'string' && b.length > 0)
+        .slice(0, 100);
+    }
+  }
+
+  if (raw.trash && typeof raw.trash === 'object') {
+    const trash = raw.trash as Record<string, unknown>;
+    result.trash = {};
+    if (typeof trash.enabled === 'boolean') {
+      result.trash.enabled = trash.enabled;
+    }
+  }
+
+  // Validate the shadow candidate policy
+  if (raw.shadow && typeof raw.shadow === 'object') {
+    result.shadow = validateNestedRules(raw.shadow);
+  }
+
+  // Validate profiles
+  if (raw.profiles && typeof raw.profiles === 'object' && !Array.isArray(raw.profiles)) {
+    const profiles: Record<string, PermissionProfile> = {};
+    for (const [name, value] of Object.entries(raw.profiles).slice(0, 50)) {
+      if (!PROFILE_NAME.test(name) || !value || typeof value !== 'object') continue;
+      const profileRaw = value as Record<string, unknown>;
+      const profile: PermissionProfile = validateNestedRules(value);
+      if (LEVELS.includes(profileRaw.level as PermissionLevel)) {
+        profile.level = profileRaw.level as PermissionLevel;
+      }
+      if (PERMISSION_MODES.includes(profileRaw.mode as PermissionMode)) {
+        profile.mode = profileRaw.mode as PermissionMode;
+      }
+      profiles[name] = profile;
+    }
+    if (Object.keys(profiles).length > 0) {
+      result.profiles = profiles;
+    }
+  }
+
+  // Validate approval channel settings
+  if (raw.approvals && typeof raw.approvals === 'object') {
+    const approvals = raw.approvals as Record<string, unknown>;
+    result.approvals = {};
+    if (typeof approvals.url === 'string' && parseApprovalUrl(approvals.url)) {
+      result.approvals.url = approvals.url;
+    }
+    if (
+      typeof approvals.timeoutSeconds === 'number' &&
+      approvals.timeoutSeconds > 0 &&
+      approvals.timeoutSeconds <= MAX_APPROVAL_TIMEOUT_SECONDS
+    ) {
+      result.approvals.timeoutSeconds = approvals.timeoutSeconds;
+    }
+    if (typeof approvals.serve === 'boolean') {
+      result.approvals.serve = approvals.serve;
+    }
+  }
+
   return result;
 }
 
@@ -200,17 +871,116 @@ function globToRegex(pattern: string): RegExp {
 }
 
 /**
- * Check if a command matches any pattern in the list
+ * Find the first glob string in the list that matches the command
+ * Rule objects are skipped - they are matched per segment
  */
-function matchesAnyPattern(command: string, patterns: string[] | undefined | null): boolean {
+function findMatchingPattern(command: string, patterns: OverrideEntry[] | undefined | null): string | undefined {
   if (!patterns || !Array.isArray(patterns) || patterns.length === 0) {
-    return false;
+    return undefined;
   }
-  return patterns.some(pattern => 
+  return patterns.find((pattern): pattern is string =>
     typeof pattern === 'string' && getCachedRegex(pattern).test(command)
   );
 }
 
+function getCachedRuleRegex(source: string): RegExp {
+  let regex = ruleRegexCache.get(source);
+  if (!regex) {
+    if (ruleRegexCache.size >= MAX_REGEX_CACHE_SIZE) {
+      const firstKey = ruleRegexCache.keys().next().value;
+      if (firstKey) ruleRegexCache.delete(firstKey);
+    }
+    try {
+      regex = new RegExp(source);
+    } catch {
+      regex = /(?!)/;
+    }
+    ruleRegexCache.set(source, regex);
+  }
+  return regex;
+}
+
+// Global options that take a value, so the value isn't mistaken for a subcommand
+// (git -C repo push → positionals are ["push"])
+const OPTIONS_WITH_VALUE: Record<string, Set<string>> = {
+  git: new Set(["-C", "-c", "--git-dir", "--work-tree", "--namespace"]),
+  docker: new Set(["-H", "--host", "--context", "--config", "-l", "--log-level"]),
+  kubectl: new Set(["-n", "--namespace", "--context", "--cluster", "--kubeconfig", "-o", "--output", "-l", "--selector"]),
+  helm: new Set(["-n", "--namespace", "--kube-context", "--kubeconfig"]),
+  npm: new Set(["--prefix", "-w", "--workspace"]),
+  pnpm: new Set(["-C", "--dir", "-F", "--filter"]),
+  yarn: new Set(["--cwd"]),
+  make: new Set(["-C", "--directory", "-f", "--file", "-j", "--jobs"]),
+  cargo: new Set(["-p", "--package", "--manifest-path"]),
+};
+
+/**
+ * Positional arguments of a command segment, skipping options and their values
+ */
+function getPositionalArgs(tokens: string[]): string[] {
+  const optionsWithValue = OPTIONS_WITH_VALUE[getCommandName(tokens)];
+  const positionals: string[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    const arg = tokens[i];
+    if (arg === "--") {
+      positionals.push(...tokens.slice(i + 1));
+      break;
+    }
+    if (arg.startsWith("-") && arg.length > 1) {
+      if (optionsWithValue?.has(arg)) i++; // Skip the option's value
+      continue;
+    }
+    positionals.push(arg);
+  }
+
+  return positionals;
+}
+
+/** Check a flag against the segment's arguments (-f also matches -rf, --force also matches --force=x) */
+function hasFlag(args: string[], flag: string): boolean {
+  if (flag.startsWith("--")) {
+    return args.some((arg) => arg === flag || arg.startsWith(`${flag}=`));
+  }
+  if (flag.length === 2) {
+    return args.some((arg) => arg === flag || (/^-[a-zA-Z0-9]+$/.test(arg) && arg.includes(flag[1])));
+  }
+  return args.includes(flag);
+}
+
+/**
+ * Check an argv-aware override rule against a single command segment
+ */
+function matchesOverrideRule(tokens: string[], rule: OverrideRule): boolean {
+  if (tokens.length === 0) return false;
+  const args = tokens.slice(1);
+
+  if (rule.command !== undefined && !getCachedRegex(rule.command).test(getCommandName(tokens))) {
+    return false;
+  }
+
+  if (rule.args) {
+    const positionals = getPositionalArgs(tokens);
+    if (positionals.length < rule.args.length) return false;
+    if (!rule.args.every((glob, i) => getCachedRegex(glob).test(positionals[i]))) return false;
+  }
+
+  if (rule.flags && !rule.flags.every((flag) => hasFlag(args, flag))) {
+    return false;
+  }
+
+  if (rule.anyArg !== undefined) {
+    const regex = getCachedRegex(rule.anyArg);
+    if (!args.some((arg) => regex.test(arg))) return false;
+  }
+
+  if (rule.regex !== undefined && !getCachedRuleRegex(rule.regex).test(tokens.join(" "))) {
+    return false;
+  }
+
+  return true;
+}
+
 /**
  * Apply prefix mappings to normalize command before classification
  * e.g., "fvm flutter build" → "flutter build"
@@ -251,6 +1021,31 @@ function applyPrefixMappings(
   return command;
 }
 
+/**
+ * Normalize a command the same way classifyCommand does (prefix mappings)
+ */
+export function normalizeCommand(command: string, config?: PermissionConfig): string {
+  const effectiveConfig = config ?? getCachedConfig();
+  return applyPrefixMappings(command, effectiveConfig.prefixMappings);
+}
+
+interface OverrideMatch {
+  classification: Pick<Classification, "level" | "dangerous">;
+  /** Override list that matched (minimal, low, medium, high, dangerous) */
+  list: typeof OVERRIDE_KEYS[number];
+  /** Matching glob string, or the rule as JSON */
+  pattern: string;
+}
+
+// Check dangerous first (highest priority), then levels from high to low
+const OVERRIDE_ORDER: Array<[typeof OVERRIDE_KEYS[number], OverrideMatch["classification"]]> = [
+  ['dangerous', { level: 'high', dangerous: true }],
+  ['high', { level: 'high', dangerous: false }],
+  ['medium', { level: 'medium', dangerous: false }],
+  ['low', { level: 'low', dangerous: false }],
+  ['minimal', { level: 'minimal', dangerous: false }],
+];
+
 /**
  * Check if command matches any configured override
  * Returns the override classification or null if no match
@@ -258,34 +1053,40 @@ function applyPrefixMappings(
 function checkOverrides(
   command: string,
   overrides: PermissionConfig['overrides']
-): Classification | null {
+): OverrideMatch | null {
   if (!overrides) return null;
 
   const trimmed = command.trim();
 
-  // Check dangerous first (highest priority)
-  if (overrides.dangerous && matchesAnyPattern(trimmed, overrides.dangerous)) {
-    return { level: 'high', dangerous: true };
+  for (const [list, classification] of OVERRIDE_ORDER) {
+    const pattern = findMatchingPattern(trimmed, overrides[list]);
+    if (pattern !== undefined) {
+      return { classification, list, pattern };
+    }
   }
 
-  // Check levels in order of specificity (high to low)
-  if (overrides.high && matchesAnyPattern(trimmed, overrides.high)) {
-    return { level: 'high', dangerous: false };
-  }
+  return null; // No override matched
+}
 
-  if (overrides.medium && matchesAnyPattern(trimmed, overrides.medium)) {
-    return { level: 'medium', dangerous: false };
-  }
-
-  if (overrides.low && matchesAnyPattern(trimmed, overrides.low)) {
-    return { level: 'low', dangerous: false };
-  }
+/**
+ * Check if a command segment matches any argv-aware override rule
+ */
+function checkSegmentOverrides(
+  tokens: string[],
+  overrides: PermissionConfig['overrides']
+): OverrideMatch | null {
+  if (!overrides) return null;
 
-  if (overrides.minimal && matchesAnyPattern(trimmed, overrides.minimal)) {
-    return { level: 'minimal', dangerous: false };
+  for (const [list, classification] of OVERRIDE_ORDER) {
+    const rule = overrides[list]?.find(
+      (entry): entry is OverrideRule => !!entry && typeof entry === 'object' && matchesOverrideRule(tokens, entry)
+    );
+    if (rule) {
+      return { classification, list, pattern: JSON.stringify(rule) };
+    }
   }
 
-  return null; // No override matched
+  return null;
 }
 
 // ============================================================================
@@ -357,17 +1158,389 @@ export function saveGlobalPermissionMode(mode: PermissionMode): void {
   saveSettings(settings);
 }
 
-export function loadPermissionConfig(): PermissionConfig {
+export function loadGlobalPermissionConfig(): PermissionConfig {
   const settings = loadSettings();
   return validateConfig(settings.permissionConfig);
 }
 
+/**
+ * Load the effective config: global settings merged with the nearest
+ * trusted project config (.pi/permission.json), then the PI_PERMISSION_PROFILE profile,
+ * then the system policy (/etc/pi/permission-policy.json)
+ */
+export function loadPermissionConfig(cwd: string = process.cwd()): PermissionConfig {
+  const config = loadLayeredConfig(cwd);
+  const profileName = getActiveProfileName();
+  const profiled = profileName ? applyPermissionProfile(config, profileName) : config;
+  const policy = loadSystemPolicy();
+  return policy ? applySystemPolicy(profiled, policy) : profiled;
+}
+
+function loadLayeredConfig(cwd: string): PermissionConfig {
+  const globalConfig = loadGlobalPermissionConfig();
+  const project = loadProjectConfig(cwd);
+  if (!project || !project.trusted) return globalConfig;
+  return mergePermissionConfigs(globalConfig, project.config);
+}
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+/** Profile selected for this process with PI_PERMISSION_PROFILE */
+export function getActiveProfileName(): string | undefined {
+  return process.env.PI_PERMISSION_PROFILE?.trim() || undefined;
+}
+
+/**
+ * Layer a profile's rules on a config the same way a project config is layered
+ * Unknown profiles leave the config unchanged
+ */
+export function applyPermissionProfile(config: PermissionConfig, name: string): PermissionConfig {
+  const profile = config.profiles?.[name];
+  if (!profile) return config;
+  const { level, mode, ...rules } = profile;
+  return mergePermissionConfigs(config, rules);
+}
+
+/**
+ * Look up the active profile in the global and trusted project configs
+ * Returns null when no profile is selected; `profile` is undefined when the name isn't defined
+ */
+export function loadActiveProfile(cwd: string): { name: string; profile?: PermissionProfile } | null {
+  const name = getActiveProfileName();
+  if (!name) return null;
+  return { name, profile: loadLayeredConfig(cwd).profiles?.[name] };
+}
+
 export function savePermissionConfig(config: PermissionConfig): void {
   const settings = loadSettings();
   settings.permissionConfig = config;
   saveSettings(settings);
 }
 
+// ============================================================================
+// PROJECT CONFIG
+// ============================================================================
+
+const PROJECT_CONFIG_FILE = "permission.json";
+
+export function findProjectConfigPath(cwd: string): string | null {
+  let currentDir = path.resolve(cwd);
+  while (true) {
+    const candidate = path.join(currentDir, ".pi", PROJECT_CONFIG_FILE);
+    if (fs.existsSync(candidate)) return candidate;
+
+    const parentDir = path.dirname(currentDir);
+    if (parentDir === currentDir) return null;
+    currentDir = parentDir;
+  }
+}
+
+function getTrustedProjects(settings: Record<string, unknown>): Record<string, string> {
+  const trusted = settings.permissionTrustedProjects;
+  if (!trusted || typeof trusted !== "object" || Array.isArray(trusted)) return {};
+  return trusted as Record<string, string>;
+}
+
+/**
+ * Load the nearest project config, or null if there is none or it can't be read
+ * Trust is tracked per file path and content hash, so any edit requires re-trusting
+ */
+export function loadProjectConfig(cwd: string): ProjectConfigInfo | null {
+  const configPath = findProjectConfigPath(cwd);
+  if (!configPath) return null;
+
+  let content: string;
+  let parsed: unknown;
+  try {
+    content = fs.readFileSync(configPath, "utf-8");
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  const hash = crypto.createHash("sha256").update(content).digest("hex");
+  const trusted = getTrustedProjects(loadSettings())[configPath] === hash;
+
+  return { path: configPath, hash, trusted, config: validateConfig(parsed) };
+}
+
+export function trustProjectConfig(project: ProjectConfigInfo): void {
+  const settings = loadSettings();
+  settings.permissionTrustedProjects = {
+    ...getTrustedProjects(settings),
+    [project.path]: project.hash,
+  };
+  saveSettings(settings);
+}
+
+/**
+ * Merge a project config on top of the global config
+ *
+ * Precedence rules:
+ * - overrides: patterns from both layers apply (most restrictive level still wins)
+ * - prefixMappings: project mappings are tried before global ones
+ * - writePaths: allow/deny lists are combined, project onDeny replaces global
+ * - secretPaths: allow/deny lists are combined, the stricter onRead wins, defaults stay on if either layer keeps them
+ * - rewrites: project rules are tried before global ones, project defaults replaces global
+ * - tools: rules from both layers apply, project default replaces global
+ * - inlineScripts: project enabled/maxLength replace global, allowed modules are combined
+ * - capabilities: confirm lists are combined
+ * - git: protected branches are combined
+ * - trash: project enabled replaces global
+ * - limits: the lower value wins for each level and field
+ * - directories: allowed roots are combined, the stricter outside handling wins
+ * - environment: dangerous/allow lists are combined
+ * - scripts: project resolve replaces global
+ * - shadow: project candidate policy replaces global
+ * - profiles: project profiles replace global profiles of the same name
+ */
+export function mergePermissionConfigs(base: PermissionConfig, project: PermissionConfig): PermissionConfig {
+  const result: PermissionConfig = { ...base };
+
+  if (project.overrides) {
+    const overrides: NonNullable<PermissionConfig['overrides']> = {};
+    for (const level of OVERRIDE_KEYS) {
+      const merged = [...(project.overrides[level] ?? []), ...(base.overrides?.[level] ?? [])];
+      if (merged.length > 0) overrides[level] = merged;
+    }
+    result.overrides = overrides;
+  }
+
+  if (project.prefixMappings) {
+    result.prefixMappings = [...project.prefixMappings, ...(base.prefixMappings ?? [])];
+  }
+
+  if (project.writePaths) {
+    const writePaths: WritePathRules = {};
+    for (const key of ['allow', 'deny'] as const) {
+      const merged = [...(project.writePaths[key] ?? []), ...(base.writePaths?.[key] ?? [])];
+      if (merged.length > 0) writePaths[key] = merged;
+    }
+    const onDeny = project.writePaths.onDeny ?? base.writePaths?.onDeny;
+    if (onDeny) writePaths.onDeny = onDeny;
+    result.writePaths = writePaths;
+  }
+
+  if (project.secretPaths) {
+    const secretPaths: SecretPathRules = {};
+    for (const key of ['allow', 'deny'] as const) {
+      const merged = [...(project.secretPaths[key] ?? []), ...(base.secretPaths?.[key] ?? [])];
+      if (merged.length > 0) secretPaths[key] = merged;
+    }
+    const onRead = [project.secretPaths.onRead, base.secretPaths?.onRead];
+    if (onRead.includes('block')) secretPaths.onRead = 'block';
+    else if (onRead.includes('ask')) secretPaths.onRead = 'ask';
+    if (project.secretPaths.defaults === false && base.secretPaths?.defaults === false) secretPaths.defaults = false;
+    result.secretPaths = secretPaths;
+  }
+
+  if (project.rewrites) {
+    const rewrites: RewriteRules = {};
+    const rules = [...(project.rewrites.rules ?? []), ...(base.rewrites?.rules ?? [])];
+    if (rules.length > 0) rewrites.rules = rules;
+    const defaults = project.rewrites.defaults ?? base.rewrites?.defaults;
+    if (defaults !== undefined) rewrites.defaults = defaults;
+    result.rewrites = rewrites;
+  }
+
+  if (project.tools) {
+    const tools: ToolPolicies = {};
+    const rules = [...(project.tools.rules ?? []), ...(base.tools?.rules ?? [])];
+    if (rules.length > 0) tools.rules = rules;
+    const defaultLevel = project.tools.default ?? base.tools?.default;
+    if (defaultLevel) tools.default = defaultLevel;
+    result.tools = tools;
+  }
+
+  if (project.inlineScripts) {
+    const inline: InlineScriptRules = { ...base.inlineScripts, ...project.inlineScripts };
+    const allowedModules: NonNullable<InlineScriptRules['allowedModules']> = {};
+    for (const language of ['python', 'node'] as const) {
+      const merged = [
+        ...(project.inlineScripts.allowedModules?.[language] ?? []),
+        ...(base.inlineScripts?.allowedModules?.[language] ?? []),
+      ];
+      if (merged.length > 0) allowedModules[language] = merged;
+    }
+    if (Object.keys(allowedModules).length > 0) inline.allowedModules = allowedModules;
+    result.inlineScripts = inline;
+  }
+
+  if (project.capabilities) {
+    result.capabilities = {
+      confirm: mergeCapabilities(project.capabilities.confirm ?? [], base.capabilities?.confirm ?? []),
+    };
+  }
+
+  if (project.git) {
+    const protectedBranches = [...(project.git.protectedBranches ?? []), ...(base.git?.protectedBranches ?? [])];
+    result.git = protectedBranches.length > 0 ? { protectedBranches } : {};
+  }
+
+  if (project.trash) {
+    result.trash = { ...base.trash, ...project.trash };
+  }
+
+  if (project.scripts) {
+    result.scripts = { ...base.scripts, ...project.scripts };
+  }
+
+  if (project.environment) {
+    const environment: EnvironmentRules = {};
+    for (const key of ['dangerous', 'allow'] as const) {
+      const merged = [...(project.environment[key] ?? []), ...(base.environment?.[key] ?? [])];
+      if (merged.length > 0) environment[key] = merged;
+    }
+    result.environment = environment;
+  }
+
+  if (project.directories) {
+    const directories: DirectoryRules = {};
+    const allowedRoots = [...(project.directories.allowedRoots ?? []), ...(base.directories?.allowedRoots ?? [])];
+    if (allowedRoots.length > 0) directories.allowedRoots = allowedRoots;
+    const outside = [project.directories.outside, base.directories?.outside];
+    if (outside.includes('prompt')) directories.outside = 'prompt';
+    else if (outside.includes('raise')) directories.outside = 'raise';
+    else if (outside.includes('ignore')) directories.outside = 'ignore';
+    result.directories = directories;
+  }
+
+  if (project.limits) {
+    const limits: CommandLimitRules = {};
+    for (const key of LIMIT_KEYS) {
+      const merged: CommandLimits = { ...base.limits?.[key] };
+      for (const [field, value] of Object.entries(project.limits[key] ?? {}) as Array<[keyof CommandLimits, number]>) {
+        merged[field] = Math.min(value, merged[field] ?? value);
+      }
+      if (Object.keys(merged).length > 0) limits[key] = merged;
+    }
+    result.limits = limits;
+  }
+
+  if (project.shadow) {
+    result.shadow = project.shadow;
+  }
+
+  if (project.profiles) {
+    result.profiles = { ...base.profiles, ...project.profiles };
+  }
+
+  return result;
+}
+
+// ============================================================================
+// SYSTEM POLICY
+// ============================================================================
+
+export const SYSTEM_POLICY_PATH = "/etc/pi/permission-policy.json";
+
+/**
+ * Load the system policy, or null if there is none
+ * A policy file not owned by root, writable by other users, or that can't be parsed fails closed
+ */
+export function loadSystemPolicy(policyPath: string = SYSTEM_POLICY_PATH): SystemPolicy | null {
+  const cached = systemPolicyCache.get(policyPath);
+  if (cached !== undefined) return cached;
+
+  const policy = readSystemPolicy(policyPath);
+  systemPolicyCache.set(policyPath, policy);
+  return policy;
+}
+
+function readSystemPolicy(policyPath: string): SystemPolicy | null {
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(policyPath);
+  } catch {
+    return null;
+  }
+
+  // The user running pi must not be able to change the policy
+  if (process.platform !== "win32" && stat.uid !== 0) {
+    return lockedMinimalPolicy(policyPath, `owned by uid ${stat.uid}, not root`);
+  }
+  if (stat.mode & 0o022) return lockedMinimalPolicy(policyPath, "writable by group or others");
+
+  let content: string;
+  try {
+    content = fs.readFileSync(policyPath, "utf-8");
+  } catch {
+    return lockedMinimalPolicy(policyPath, "unreadable");
+  }
+  return parseSystemPolicy(content, policyPath);
+}
+
+function lockedMinimalPolicy(policyPath: string, error: string): SystemPolicy {
+  return { path: policyPath, locked: true, maxLevel: "minimal", config: {}, error };
+}
+
+/** Parse the contents of a system policy file; invalid contents fail closed */
+export function parseSystemPolicy(content: string, policyPath: string = SYSTEM_POLICY_PATH): SystemPolicy {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    return lockedMinimalPolicy(policyPath, "invalid JSON");
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return lockedMinimalPolicy(policyPath, "not a JSON object");
+
+  const locked = raw.locked === true;
+  const maxLevel = typeof raw.maxLevel === "string" ? raw.maxLevel.toLowerCase() : undefined;
+  if (maxLevel !== undefined && !LEVELS.includes(maxLevel as PermissionLevel)) {
+    return lockedMinimalPolicy(policyPath, `unknown maxLevel "${maxLevel}"`);
+  }
+
+  return {
+    path: policyPath,
+    locked,
+    // A locked policy never allows bypassed
+    maxLevel: !locked ? "bypassed" : isRuleLevel(maxLevel) ? maxLevel : "high",
+    config: validateConfig(raw.permissionConfig),
+  };
+}
+
+/**
+ * Keep only the rules of a config that can make classification stricter
+ * Everything that can lower a level or skip a check comes from a locked policy alone
+ */
+function getTighteningRules(config: PermissionConfig): PermissionConfig {
+  const {
+    overrides, prefixMappings, tools, inlineScripts, scripts, trash,
+    writePaths, secretPaths, environment, directories, ...rest
+  } = config;
+  const result: PermissionConfig = rest;
+
+  if (writePaths) {
+    result.writePaths = {};
+    if (writePaths.deny) result.writePaths.deny = writePaths.deny;
+    if (writePaths.onDeny === 'block') result.writePaths.onDeny = 'block';
+  }
+  if (secretPaths) {
+    result.secretPaths = {};
+    if (secretPaths.deny) result.secretPaths.deny = secretPaths.deny;
+    if (secretPaths.onRead === 'block') result.secretPaths.onRead = 'block';
+  }
+  if (environment?.dangerous) result.environment = { dangerous: environment.dangerous };
+  if (directories?.outside === 'prompt') result.directories = { outside: 'prompt' };
+  return result;
+}
+
+/**
+ * Layer the system policy on top of a config the same way a project config is layered
+ * A locked policy first drops every rule of the other layers that could loosen its own
+ */
+export function applySystemPolicy(config: PermissionConfig, policy: SystemPolicy): PermissionConfig {
+  return mergePermissionConfigs(policy.locked ? getTighteningRules(config) : config, policy.config);
+}
+
+/** Lower a level to the most a locked system policy allows */
+export function capPermissionLevel(level: PermissionLevel, policy: SystemPolicy | null): PermissionLevel {
+  if (!policy?.locked || LEVEL_INDEX[level] <= LEVEL_INDEX[policy.maxLevel]) return level;
+  return policy.maxLevel;
+}
+
 // ============================================================================
 // COMMAND PARSING
 // ============================================================================
@@ -377,19 +1550,26 @@ interface ParsedCommand {
   operators: string[]; // |, &&, ||, ;
   raw: string;
   hasShellTricks?: boolean;
+  /** Why hasShellTricks was set */
+  shellTrickReason?: string;
   /** Output redirections to non-special files (>, >>) */
   writesFiles?: boolean;
+  /** Heredoc feeding each segment's stdin, by segment index */
+  heredocs?: Record<number, Heredoc>;
+  /** Leading VAR=value assignments, by segment index (removed from the segment) */
+  assignments?: Record<number, string[]>;
 }
 
+/** A shell variable assignment word (FOO=bar) */
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
 // Shell execution commands that can run arbitrary code
 const SHELL_EXECUTION_COMMANDS = new Set([
   "eval", "exec", "source", ".", // shell builtins
-  "env", // can execute commands: env rm -rf /
-  "command", // bypasses aliases, can execute arbitrary commands
   "builtin", // uses shell builtins directly
-  // Wrapper commands that can execute arbitrary commands
-  "time", "nice", "nohup", "timeout", "watch", "strace",
-  // Note: xargs is handled in CONDITIONAL_WRITE_COMMANDS with smart logic
+  "strace", // traces (and can write to) arbitrary programs
+  // Note: env, command, time, nice, nohup, timeout, watch and xargs are
+  // peeled in COMMAND_WRAPPERS and the wrapped command is classified instead
 ]);
 
 // Patterns that indicate command substitution or shell tricks in raw command
@@ -443,21 +1623,129 @@ const SAFE_REDIRECTION_TARGETS = new Set([
   "/dev/fd/1", "/dev/fd/2",
 ]);
 
+/** Here-document body that feeds a command's stdin */
+interface Heredoc {
+  body: string;
+  /** Quoted delimiter (<<'EOF') - the body is not expanded by the shell */
+  quoted: boolean;
+}
+
+/** Placeholder left in the command text where a heredoc was attached */
+const HEREDOC_MARKER = /^__pi_heredoc_(\d+)__$/;
+
+// <<EOF, <<-EOF, <<'EOF', <<"EOF", <<\EOF (but not <<< here-strings)
+const HEREDOC_START = /^<<(-?)[ \t]*(?:'([^'\n]*)'|"([^"\n]*)"|(\\?)([^\s;&|<>()'"]+))/;
+
+/**
+ * Make multi-line scripts parseable as a single command line:
+ * - unquoted newlines become ";" (unless the line ends with an operator)
+ * - comments are dropped, so they can't swallow the following lines
+ * - heredoc bodies are cut out and replaced by a marker token
+ */
+function prepareCommandText(command: string): { text: string; heredocs: Heredoc[] } {
+  const heredocs: Heredoc[] = [];
+  const pending: Array<{ delimiter: string; stripTabs: boolean; heredoc: Heredoc }> = [];
+  let text = "";
+  let quote: "'" | '"' | null = null;
+  let i = 0;
+
+  while (i < command.length) {
+    const ch = command[i];
+
+    if (quote === "'") {
+      text += ch;
+      if (ch === "'") quote = null;
+      i++;
+      continue;
+    }
+
+    if (ch === "\\") {
+      // Line continuation joins lines, other escapes are kept for shell-quote
+      if (command[i + 1] !== "\n") text += command.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+
+    if (quote === '"') {
+      text += ch;
+      if (ch === '"') quote = null;
+      i++;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      quote = ch;
+      text += ch;
+      i++;
+      continue;
+    }
+
+    // Comment: only at the start of a word
+    if (ch === "#" && (text === "" || /[\s;&|()]$/.test(text))) {
+      while (i < command.length && command[i] !== "\n") i++;
+      continue;
+    }
+
+    if (ch === "<") {
+      const match = HEREDOC_START.exec(command.slice(i));
+      if (match) {
+        const heredoc: Heredoc = { body: "", quoted: match[2] !== undefined || match[3] !== undefined || match[4] === "\\" };
+        pending.push({ delimiter: match[2] ?? match[3] ?? match[5], stripTabs: match[1] === "-", heredoc });
+        text += ` __pi_heredoc_${heredocs.length}__ `;
+        heredocs.push(heredoc);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "\n") {
+      i++;
+
+      // Heredoc bodies follow the line that started them, in order
+      for (const { delimiter, stripTabs, heredoc } of pending) {
+        const lines: string[] = [];
+        while (i < command.length) {
+          const end = command.indexOf("\n", i);
+          let line = command.slice(i, end === -1 ? command.length : end);
+          i = end === -1 ? command.length : end + 1;
+          if (stripTabs) line = line.replace(/^\t+/, "");
+          if (line === delimiter) break;
+          lines.push(line);
+        }
+        heredoc.body = lines.join("\n");
+      }
+      pending.length = 0;
+
+      const trimmed = text.trimEnd();
+      text = trimmed === "" || /[|&;({]$/.test(trimmed) ? `${trimmed} ` : `${trimmed} ; `;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+
+  return { text, heredocs };
+}
+
 function parseCommand(command: string): ParsedCommand {
-  const hasShellTricks = detectShellTricks(command);
-  
+  const { text, heredocs } = prepareCommandText(command);
+  // Unquoted heredoc bodies are expanded, so $(...) inside them runs
+  const hasShellTricks = detectShellTricks(text) || heredocs.some((h) => !h.quoted && detectShellTricks(h.body));
+
   // shell-quote can throw on complex patterns it doesn't understand
   // In that case, treat the command as having shell tricks (require high permission)
   let tokens: ReturnType<typeof parse>;
   try {
-    tokens = parse(command);
+    tokens = parse(text);
   } catch {
     // Parse failed - treat as dangerous
     return {
       segments: [],
       operators: [],
       raw: command,
-      hasShellTricks: true
+      hasShellTricks: true,
+      shellTrickReason: "command could not be parsed"
     };
   }
 
@@ -466,6 +1754,7 @@ function parseCommand(command: string): ParsedCommand {
   let currentSegment: string[] = [];
   let foundCommandSubstitution = false;
   let writesFiles = false;
+  const segmentHeredocs: Record<number, Heredoc> = {};
 
   // Redirection operators - these don't start new command segments
   const REDIRECTION_OPS = new Set([">", "<", ">>", ">&", "<&", ">|", "<>", "&>", "&>>"]);
@@ -487,11 +1776,19 @@ function parseCommand(command: string): ParsedCommand {
     }
     
     if (typeof token === "string") {
-      currentSegment.push(token);
+      const marker = HEREDOC_MARKER.exec(token);
+      if (marker) {
+        segmentHeredocs[segments.length] = heredocs[Number(marker[1])];
+      } else {
+        currentSegment.push(token);
+      }
     } else if (token && typeof token === "object") {
       if ("op" in token) {
         const op = token.op as string;
-        if (REDIRECTION_OPS.has(op)) {
+        if (op === "glob" && "pattern" in token) {
+          // Keep wildcard arguments (*.js) so they can be checked like any other argument
+          currentSegment.push(token.pattern as string);
+        } else if (REDIRECTION_OPS.has(op)) {
           // Check if this is an output redirection
           if (OUTPUT_REDIRECTION_OPS.has(op)) {
             pendingOutputRedirect = true;
@@ -539,12 +1836,30 @@ function parseCommand(command: string): ParsedCommand {
     segments.push(currentSegment);
   }
 
+  // Leading assignments set the environment of the command that follows, so the command is the next word
+  const segmentAssignments: Record<number, string[]> = {};
+  segments.forEach((segment, i) => {
+    let count = 0;
+    while (count < segment.length && ASSIGNMENT.test(segment[count])) count++;
+    if (count > 0) segmentAssignments[i] = segment.splice(0, count);
+  });
+
+  let shellTrickReason: string | undefined;
+  if (hasShellTricks) {
+    shellTrickReason = "contains command or process substitution ($(...), backticks, <(...), >(...))";
+  } else if (foundCommandSubstitution) {
+    shellTrickReason = "contains shell syntax that cannot be analyzed";
+  }
+
   return {
     segments,
     operators,
     raw: command,
     hasShellTricks: hasShellTricks || foundCommandSubstitution,
-    writesFiles
+    shellTrickReason,
+    writesFiles,
+    heredocs: segmentHeredocs,
+    assignments: segmentAssignments
   };
 }
 
@@ -621,137 +1936,493 @@ function isDangerousCommand(tokens: string[]): boolean {
 }
 
 // ============================================================================
-// LEVEL CLASSIFICATION
+// PROJECT SCRIPTS
 // ============================================================================
 
-// Common redirection targets (treated as read-only)
-const REDIRECTION_TARGETS = new Set([
-  "/dev/null", "/dev/stdin", "/dev/stdout", "/dev/stderr",
-  "/dev/zero", "/dev/full", "/dev/random", "/dev/urandom",
-  "/dev/fd", "/dev/tty", "/dev/ptmx",
-]);
+interface MakeRule {
+  prerequisites: string[];
+  recipe: string[];
+}
 
-// File descriptor numbers used in redirections (e.g., 2>&1)
-const FD_NUMBERS = new Set(["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]);
+interface Makefile {
+  rules: Map<string, MakeRule>;
+  defaultGoal?: string;
+}
 
-// MINIMAL level - read-only commands
-const MINIMAL_COMMANDS = new Set([
-  // File reading
-  "cat", "less", "more", "head", "tail", "bat", "tac",
-  // Directory listing/navigation
-  "ls", "tree", "pwd", "dir", "vdir", "cd", "pushd", "popd", "dirs",
-  // Search (note: find handled specially due to -exec/-delete)
-  "grep", "egrep", "fgrep", "rg", "ag", "ack", "fd", "locate", "which", "whereis",
-  // Info
-  "echo", "printf", "whoami", "id", "date", "cal", "uname", "hostname", "uptime",
-  "type", "file", "stat", "wc", "du", "df", "free",
-  "ps", "top", "htop", "pgrep", "sleep",
-  // Man/help
-  "man", "help", "info",
-  // Pipeline utilities (note: xargs, tee handled specially - they can write/execute)
-  "sort", "uniq", "cut", "awk", "sed", "tr", "column", "paste", "join",
-  "comm", "diff", "cmp", "patch",
-  // Shell test commands (read-only conditionals)
-  "test", "[", "[[", "true", "false",
-]);
+interface ProjectScript {
+  /** e.g. npm script "test" or make target "build" */
+  label: string;
+  /** Commands the script runs, each with the directory it runs in */
+  commands: Array<{ command: string; dir: string }>;
+}
 
-// Commands that can write files based on arguments
-// find: -exec, -execdir, -ok, -okdir, -delete can modify filesystem
-// xargs: executes commands with input as arguments (but safe if running read-only commands)
-// tee: writes to files (but read-only when used with /dev/null or --)
+const MAKEFILE_NAMES = ["GNUmakefile", "makefile", "Makefile"];
 
-/**
- * Extract the command that xargs will execute.
- * Parses xargs options to find the first non-option argument.
- * Returns null if no command specified (xargs defaults to /bin/echo).
- */
-function extractXargsCommand(tokens: string[]): string | null {
-  const args = tokens.slice(1); // Skip 'xargs' itself
+// Subcommands yarn/pnpm run themselves rather than as a script of the same name
+const PACKAGE_MANAGER_COMMANDS = new Set([
+  "install", "i", "add", "remove", "rm", "uninstall", "update", "upgrade", "up", "list", "ls", "info", "view",
+  "why", "outdated", "audit", "publish", "pack", "link", "unlink", "init", "create", "exec", "dlx", "x",
+  "config", "cache", "store", "import", "rebuild", "prune", "dedupe", "patch", "bin", "root", "global",
+  "workspace", "workspaces", "set", "version", "help", "login", "logout", "whoami", "env", "node", "plugin",
+]);
 
-  // xargs options that consume the next argument
-  const OPTIONS_WITH_ARG = new Set(["-I", "-d", "-E", "-L", "-n", "-P", "-s", "-a"]);
+// Options that run scripts in other packages than the one in the working directory
+const WORKSPACE_OPTIONS = ["-w", "--workspace", "--workspaces", "-ws", "-F", "--filter", "-r", "--recursive"];
 
-  let i = 0;
-  while (i < args.length) {
-    const arg = args[i];
+/** Scripts nested deeper than this (npm run a → npm run b → ...) are not followed */
+const MAX_SCRIPT_DEPTH = 5;
+const MAX_MAKE_TARGETS = 50;
 
-    // End of options marker
-    if (arg === "--") {
-      i++;
-      break;
-    }
+let scriptDepth = 0;
 
-    // Not an option - this is the command
-    if (!arg.startsWith("-")) {
-      break;
-    }
+const scriptFileCache = new Map<string, { mtimeMs: number; value: unknown }>();
 
-    // Long options (--null, --max-args=5, etc.)
-    if (arg.startsWith("--")) {
-      // Long options either are flags or use = for values, so just skip
-      i++;
-      continue;
-    }
+/** Read and parse a file, reusing the result until its mtime changes */
+function readCachedFile<T>(filePath: string, parseFile: (text: string) => T): T | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch {
+    return null;
+  }
+  const cached = scriptFileCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.value as T | null;
 
-    // Short option that takes a required argument
-    // Could be: -I {} (separate) or -I{} (attached)
-    const optLetter = arg.substring(0, 2); // e.g., "-I"
-    if (OPTIONS_WITH_ARG.has(optLetter)) {
-      if (arg.length > 2) {
-        // Argument attached: -I{} or -n10
-        i++;
-      } else {
-        // Argument is next token: -I {}
-        i += 2;
-      }
-      continue;
-    }
+  let value: T | null;
+  try {
+    value = parseFile(fs.readFileSync(filePath, "utf-8"));
+  } catch {
+    value = null;
+  }
+  if (scriptFileCache.size >= MAX_REGEX_CACHE_SIZE) scriptFileCache.clear();
+  scriptFileCache.set(filePath, { mtimeMs, value });
+  return value;
+}
 
-    // -i and -e can have optional attached argument (deprecated forms)
-    // -i[replstr], -e[eof-str]
-    if (arg.startsWith("-i") || arg.startsWith("-e")) {
-      i++;
+function findPackageJson(dir: string): string | null {
+  let currentDir = dir;
+  while (true) {
+    const candidate = path.join(currentDir, "package.json");
+    if (fs.existsSync(candidate)) return candidate;
+    const parentDir = path.dirname(currentDir);
+    if (parentDir === currentDir) return null;
+    currentDir = parentDir;
+  }
+}
+
+function readPackageScripts(packageJsonPath: string): Record<string, string> | null {
+  return readCachedFile(packageJsonPath, (text) => {
+    const scripts = JSON.parse(text)?.scripts;
+    return isStringRecord(scripts) ? scripts : {};
+  });
+}
+
+/**
+ * Parse the rules of a Makefile: targets, prerequisites and recipe lines
+ * Pattern rules, special targets and variable assignments are skipped
+ */
+function parseMakefile(text: string): Makefile {
+  const rules = new Map<string, MakeRule>();
+  let defaultGoal: string | undefined;
+  let current: MakeRule[] = [];
+
+  for (const line of text.replace(/\\\r?\n/g, " ").split(/\r?\n/)) {
+    if (line.startsWith("\t")) {
+      const command = line.trim().replace(/^[@+-]+/, "").trim();
+      if (command && !command.startsWith("#")) current.forEach((rule) => rule.recipe.push(command));
       continue;
     }
+    if (!line.trim() || line.trim().startsWith("#")) continue;
 
-    // Other short options are flags (can be combined): -0, -t, -p, -r, -x
-    // e.g., -0tr means -0 -t -r
-    i++;
+    const match = /^([^:=#\t][^:=#]*?)\s*::?(?!=)(.*)$/.exec(line);
+    if (!match || match[2].includes("=")) {
+      current = [];
+      continue;
+    }
+
+    const [deps, inline] = match[2].split(";", 2);
+    const prerequisites = deps.split(/\s+/).filter((d) => d && d !== "|");
+    current = [];
+    for (const target of match[1].trim().split(/\s+/)) {
+      if (target.startsWith(".") || target.includes("%")) continue;
+      defaultGoal ??= target;
+      const rule = rules.get(target) ?? { prerequisites: [], recipe: [] };
+      rule.prerequisites.push(...prerequisites);
+      rules.set(target, rule);
+      current.push(rule);
+    }
+    if (inline?.trim()) current.forEach((rule) => rule.recipe.push(inline.trim()));
+  }
+
+  return { rules, defaultGoal };
+}
+
+/** npm/yarn/pnpm/bun script a segment runs, with pre/post scripts */
+function resolvePackageScript(tokens: string[], dir: string): ProjectScript | null {
+  const cmd = getCommandName(tokens);
+  if (tokens.some((t) => WORKSPACE_OPTIONS.includes(t.split("=")[0]))) return null;
+
+  const positionals = getPositionalArgs(tokens);
+  const sub = positionals[0];
+  let name: string | undefined;
+  if (sub === "run" || sub === "run-script") {
+    name = positionals[1];
+  } else if (cmd !== "bun" && (sub === "test" || sub === "t" || sub === "tst" || sub === "start")) {
+    name = sub === "start" ? "start" : "test";
+  } else if ((cmd === "yarn" || cmd === "pnpm") && sub && !PACKAGE_MANAGER_COMMANDS.has(sub)) {
+    name = sub;
+  }
+  if (!name) return null;
+
+  const packageJsonPath = findPackageJson(dir);
+  const scripts = packageJsonPath ? readPackageScripts(packageJsonPath) : null;
+  if (!packageJsonPath || !scripts?.[name]) return null;
+
+  const packageDir = path.dirname(packageJsonPath);
+  const commands = [`pre${name}`, name, `post${name}`]
+    .filter((script) => scripts[script])
+    .map((script) => ({ command: scripts[script], dir: packageDir }));
+  return { label: `${cmd} script "${name}"`, commands };
+}
+
+/** Recipes a make invocation runs, prerequisites first */
+function resolveMakeTargets(tokens: string[], dir: string): ProjectScript | null {
+  if (tokens.some((t) => t === "-f" || t === "--file" || t.startsWith("--file=") || /^-f./.test(t))) return null;
+
+  const makefilePath = MAKEFILE_NAMES.map((name) => path.join(dir, name)).find((p) => fs.existsSync(p));
+  const makefile = makefilePath ? readCachedFile(makefilePath, parseMakefile) : null;
+  if (!makefile) return null;
+
+  const goals = getPositionalArgs(tokens).filter((arg) => !arg.includes("="));
+  if (goals.length === 0 && makefile.defaultGoal) goals.push(makefile.defaultGoal);
+  if (goals.length === 0 || !goals.every((goal) => makefile.rules.has(goal))) return null;
+
+  const commands: ProjectScript["commands"] = [];
+  const visited = new Set<string>();
+  const visit = (target: string): void => {
+    const rule = makefile.rules.get(target);
+    if (!rule || visited.has(target) || visited.size >= MAX_MAKE_TARGETS) return;
+    visited.add(target);
+    rule.prerequisites.forEach(visit);
+    commands.push(...rule.recipe.map((command) => ({ command, dir })));
+  };
+  goals.forEach(visit);
+
+  return { label: `make target${goals.length > 1 ? "s" : ""} "${goals.join(" ")}"`, commands };
+}
+
+/**
+ * Classify a package manager script or make invocation by the commands it runs
+ * Returns null when the script can't be read, so the name-based rules apply
+ */
+function classifyProjectScript(tokens: string[], config: PermissionConfig, dir: string): SegmentResult | null {
+  const cmd = getCommandName(tokens);
+  const script = ["npm", "yarn", "pnpm", "bun"].includes(cmd)
+    ? resolvePackageScript(tokens, dir)
+    : cmd === "make"
+      ? resolveMakeTargets(tokens, dir)
+      : null;
+  if (!script) return null;
+
+  if (scriptDepth >= MAX_SCRIPT_DEPTH) {
+    return {
+      level: "high",
+      dangerous: false,
+      capabilities: [...CAPABILITIES],
+      reason: `${script.label} nests scripts too deeply to analyze (requires High)`,
+    };
   }
 
-  // Return the command if found
-  if (i < args.length) {
-    const cmd = args[i];
-    // Strip path prefix (e.g., /usr/bin/cat -> cat)
-    if (cmd.includes("/")) {
-      return cmd.split("/").pop()?.toLowerCase() || null;
+  scriptDepth++;
+  let classifications: Classification[];
+  try {
+    classifications = script.commands.map(({ command, dir }) => classifyCommand(command, config, dir));
+  } finally {
+    scriptDepth--;
+  }
+
+  let level: PermissionLevel = "minimal";
+  for (const c of classifications) {
+    if (LEVEL_INDEX[c.level] > LEVEL_INDEX[level]) level = c.level;
+  }
+  const body = script.commands.map((c) => c.command).join(" && ") || "nothing";
+  return {
+    level,
+    dangerous: classifications.some((c) => c.dangerous),
+    capabilities: mergeCapabilities(...classifications.map((c) => c.capabilities)),
+    reason: `${script.label} runs: ${body}`,
+  };
+}
+
+// ============================================================================
+// ENVIRONMENT VARIABLES
+// ============================================================================
+
+/** Variables that load code, redirect tools or change which program runs */
+const DANGEROUS_VARIABLES = [
+  // Dynamic linker and program lookup
+  "PATH", "LD_*", "DYLD_*",
+  // Interpreter startup and module paths
+  "NODE_OPTIONS", "NODE_PATH", "PYTHONPATH", "PYTHONSTARTUP", "PYTHONHOME", "PERL5LIB", "PERL5OPT", "PERLLIB",
+  "RUBYOPT", "RUBYLIB", "JAVA_TOOL_OPTIONS", "_JAVA_OPTIONS", "JDK_JAVA_OPTIONS",
+  // Shell startup and parsing
+  "BASH_ENV", "ENV", "SHELLOPTS", "BASHOPTS", "PROMPT_COMMAND", "IFS",
+  // git repository, config and helper programs
+  "GIT_DIR", "GIT_WORK_TREE", "GIT_INDEX_FILE", "GIT_EXEC_PATH", "GIT_CONFIG*", "GIT_SSH", "GIT_SSH_COMMAND",
+  "GIT_ASKPASS", "GIT_EDITOR", "GIT_PAGER", "GIT_EXTERNAL_DIFF", "GIT_PROXY_COMMAND",
+  // Programs other tools launch
+  "EDITOR", "VISUAL", "PAGER", "LESSOPEN", "SSH_ASKPASS", "SUDO_ASKPASS", "npm_config_*",
+];
+
+/**
+ * First assigned variable that's on the dangerous list and not allowed, or undefined
+ */
+function findDangerousVariable(assignments: string[], config: PermissionConfig): string | undefined {
+  const rules = config.environment;
+  const dangerous = [...DANGEROUS_VARIABLES, ...(rules?.dangerous ?? [])];
+  for (const assignment of assignments) {
+    const name = assignment.slice(0, assignment.indexOf("="));
+    if (rules?.allow?.some((glob) => getCachedRegex(glob).test(name))) continue;
+    if (dangerous.some((glob) => getCachedRegex(glob).test(name))) return name;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// WORKING DIRECTORY
+// ============================================================================
+
+/** Options that make a command operate in another directory */
+const DIRECTORY_OPTIONS: Record<string, string[]> = {
+  git: ["-C"],
+  make: ["-C", "--directory"],
+  tar: ["-C", "--directory"],
+  npm: ["--prefix"],
+  pnpm: ["-C", "--dir"],
+  yarn: ["--cwd"],
+};
+
+/** Resolve a directory argument; null when it depends on something unknown */
+function resolveDirectory(base: string | null, target: string): string | null {
+  // shell-quote expands unset variables to empty strings
+  if (target === "") return null;
+  const expanded = expandHome(target);
+  if (path.isAbsolute(expanded)) return path.resolve(expanded);
+  return base === null ? null : path.resolve(base, expanded);
+}
+
+/** Value of a directory option in a segment (-C dir, -Cdir, --directory=dir, --directory dir) */
+function getDirectoryOption(tokens: string[]): string | undefined {
+  const options = DIRECTORY_OPTIONS[getCommandName(tokens)];
+  if (!options) return undefined;
+  for (let i = 1; i < tokens.length; i++) {
+    const arg = tokens[i];
+    for (const option of options) {
+      if (arg === option) return tokens[i + 1] ?? "";
+      if (option.startsWith("--") && arg.startsWith(`${option}=`)) return arg.slice(option.length + 1);
+      if (!option.startsWith("--") && arg.startsWith(option) && arg.length > option.length) return arg.slice(option.length);
     }
-    return cmd.toLowerCase();
   }
+  return undefined;
+}
 
-  // No command found - xargs defaults to /bin/echo (safe)
-  return null;
+/**
+ * Directory each segment operates in, following cd/pushd through the command
+ * null when it can't be determined (cd -, popd, variables)
+ */
+function getSegmentDirectories(segments: string[][], cwd: string): Array<string | null> {
+  let current: string | null = path.resolve(cwd);
+  return segments.map((segment) => {
+    const cmd = getCommandName(segment);
+    if (cmd === "cd" || cmd === "pushd") {
+      const target = segment.slice(1).find((arg) => arg === "-" || !arg.startsWith("-"));
+      if (target === undefined) current = cmd === "cd" ? resolveDirectory(null, "~") : null;
+      else current = target === "-" ? null : resolveDirectory(current, target);
+      return current;
+    }
+    if (cmd === "popd") {
+      current = null;
+      return current;
+    }
+
+    const option = getDirectoryOption(segment);
+    return option === undefined ? current : resolveDirectory(current, option);
+  });
 }
 
+/** Repository root of the working directory plus the configured allowed roots */
+function getAllowedRoots(cwd: string, config: PermissionConfig): string[] {
+  const repoRoot = findRepoRoot(cwd);
+  const extra = (config.directories?.allowedRoots ?? []).map((root) => path.resolve(repoRoot, expandHome(root)));
+  return [repoRoot, ...extra];
+}
+
+function isInsideRoots(dir: string, roots: string[]): boolean {
+  return roots.some((root) => dir === root || dir.startsWith(root.endsWith(path.sep) ? root : root + path.sep));
+}
+
+// ============================================================================
+// GIT SAFETY
+// ============================================================================
+
+// git push options that take a value, so the value isn't mistaken for the remote
+const GIT_PUSH_OPTIONS_WITH_VALUE = new Set(["-o", "--push-option", "--repo", "--receive-pack", "--exec"]);
+
+/**
+ * Split a git invocation into its subcommand and the subcommand's arguments
+ * (git -C repo reset --hard → "reset", ["--hard"])
+ */
+function getGitSubcommand(tokens: string[]): { subCmd: string; args: string[] } {
+  for (let i = 1; i < tokens.length; i++) {
+    const arg = tokens[i];
+    if (arg.startsWith("-") && arg.length > 1) {
+      if (OPTIONS_WITH_VALUE.git.has(arg)) i++; // Skip the option's value
+      continue;
+    }
+    return { subCmd: arg.toLowerCase(), args: tokens.slice(i + 1) };
+  }
+  return { subCmd: "", args: [] };
+}
+
+/** Branch a push refspec updates ("+src:refs/heads/main" → "main", "HEAD" → current branch) */
+function getPushTarget(refspec: string): string {
+  const spec = refspec.replace(/^\+/, "");
+  const target = spec.includes(":") ? spec.slice(spec.indexOf(":") + 1) : spec;
+  return target.replace(/^refs\/heads\//, "");
+}
+
+function getDangerousPushReason(args: string[], config: PermissionConfig): string | null {
+  const positionals: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith("-") && args[i].length > 1) {
+      if (GIT_PUSH_OPTIONS_WITH_VALUE.has(args[i])) i++;
+      continue;
+    }
+    positionals.push(args[i]);
+  }
+  const refspecs = positionals.slice(1);
+
+  if (hasFlag(args, "--force") || hasFlag(args, "-f") || args.includes("--mirror") || refspecs.some((r) => r.startsWith("+"))) {
+    return "force push overwrites remote history";
+  }
+
+  const protectedBranches = config.git?.protectedBranches ?? [];
+  if (protectedBranches.length === 0) return null;
+
+  const leased = hasFlag(args, "--force-with-lease") || hasFlag(args, "--force-if-includes");
+  const deleting = hasFlag(args, "--delete") || hasFlag(args, "-d") || refspecs.some((r) => r.startsWith(":"));
+  if (!leased && !deleting) return null;
+
+  // Without a refspec git pushes the current branch, which isn't known here - assume it's protected
+  const targets = refspecs.map(getPushTarget);
+  const hit =
+    targets.length === 0 || targets.includes("HEAD")
+      ? "the current branch"
+      : targets.find((t) => protectedBranches.some((p) => getCachedRegex(p).test(t)));
+  if (!hit) return null;
+  return deleting ? `push --delete removes protected branch ${hit}` : `force push to protected branch ${hit}`;
+}
+
+/**
+ * Why a git command destroys uncommitted work or rewrites history, or null if it doesn't
+ * Rebase and commit --amend are not included - the reflog keeps the old commits
+ */
+function getDestructiveGitReason(tokens: string[], config: PermissionConfig): string | null {
+  const { subCmd, args } = getGitSubcommand(tokens);
+  const separator = args.indexOf("--");
+  const options = separator === -1 ? args : args.slice(0, separator);
+  const paths = separator === -1 ? [] : args.slice(separator + 1);
+  const firstArg = options.find((a) => !a.startsWith("-"));
+
+  switch (subCmd) {
+    case "reset":
+      return hasFlag(options, "--hard") ? "reset --hard discards uncommitted changes" : null;
+    case "clean":
+      // Without --force git refuses to clean (clean.requireForce)
+      if (hasFlag(options, "-n") || hasFlag(options, "--dry-run")) return null;
+      return hasFlag(options, "-f") || hasFlag(options, "--force") ? "clean permanently deletes untracked files" : null;
+    case "checkout":
+      if (hasFlag(options, "-f") || hasFlag(options, "--force")) return "checkout --force discards uncommitted changes";
+      if (paths.length > 0 || options.includes(".")) return "checkout of paths discards uncommitted changes to them";
+      return null;
+    case "restore": {
+      // --staged alone only unstages; restoring the working tree discards changes
+      const staged = hasFlag(options, "--staged") || hasFlag(options, "-S");
+      const worktree = hasFlag(options, "--worktree") || hasFlag(options, "-W");
+      return staged && !worktree ? null : "restore discards uncommitted changes";
+    }
+    case "switch":
+      return hasFlag(options, "--discard-changes") || hasFlag(options, "-f") || hasFlag(options, "--force")
+        ? "switch --discard-changes discards uncommitted changes"
+        : null;
+    case "stash":
+      return firstArg === "drop" || firstArg === "clear" ? `stash ${firstArg} deletes stashed changes` : null;
+    case "branch": {
+      const forceDelete =
+        hasFlag(options, "-D") ||
+        ((hasFlag(options, "-d") || hasFlag(options, "--delete")) && (hasFlag(options, "-f") || hasFlag(options, "--force")));
+      return forceDelete ? "branch -D deletes a branch even if it isn't merged" : null;
+    }
+    case "push":
+      return getDangerousPushReason(args, config);
+    case "filter-branch":
+    case "filter-repo":
+      return `${subCmd} rewrites history`;
+    case "reflog":
+      return firstArg === "expire" || firstArg === "delete"
+        ? `reflog ${firstArg} removes the record needed to recover lost commits`
+        : null;
+    case "gc":
+      return options.some((a) => /^--prune=(now|all)$/.test(a)) ? "gc --prune=now permanently deletes unreachable commits" : null;
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// LEVEL CLASSIFICATION
+// ============================================================================
+
+// Common redirection targets (treated as read-only)
+const REDIRECTION_TARGETS = new Set([
+  "/dev/null", "/dev/stdin", "/dev/stdout", "/dev/stderr",
+  "/dev/zero", "/dev/full", "/dev/random", "/dev/urandom",
+  "/dev/fd", "/dev/tty", "/dev/ptmx",
+]);
+
+// File descriptor numbers used in redirections (e.g., 2>&1)
+const FD_NUMBERS = new Set(["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"]);
+
+// MINIMAL level - read-only commands
+const MINIMAL_COMMANDS = new Set([
+  // File reading
+  "cat", "less", "more", "head", "tail", "bat", "tac",
+  // Directory listing/navigation
+  "ls", "tree", "pwd", "dir", "vdir", "cd", "pushd", "popd", "dirs",
+  // Search (note: find handled specially due to -exec/-delete)
+  "grep", "egrep", "fgrep", "rg", "ag", "ack", "fd", "locate", "which", "whereis",
+  // Info
+  "echo", "printf", "whoami", "id", "date", "cal", "uname", "hostname", "uptime",
+  "type", "file", "stat", "wc", "du", "df", "free",
+  "ps", "top", "htop", "pgrep", "sleep",
+  // Man/help
+  "man", "help", "info",
+  // Pipeline utilities (note: tee handled specially, xargs is a wrapper - they can write/execute)
+  "sort", "uniq", "cut", "awk", "sed", "tr", "column", "paste", "join",
+  "comm", "diff", "cmp", "patch",
+  // Shell test commands (read-only conditionals)
+  "test", "[", "[[", "true", "false",
+]);
+
+// Commands that can write files based on arguments
+// find: -exec, -execdir, -ok, -okdir, -delete can modify filesystem
+// tee: writes to files (but read-only when used with /dev/null or --)
+
 const CONDITIONAL_WRITE_COMMANDS: Record<string, (tokens: string[]) => boolean> = {
   find: (tokens) => {
     const dangerousFlags = ["-exec", "-execdir", "-ok", "-okdir", "-delete"];
     return tokens.some(t => dangerousFlags.includes(t.toLowerCase()));
   },
-  xargs: (tokens) => {
-    // xargs executes commands with input as arguments
-    // Safe if running a read-only command from MINIMAL_COMMANDS
-    const xargsCmd = extractXargsCommand(tokens);
-
-    // No command = defaults to /bin/echo (safe, just prints)
-    if (xargsCmd === null) return false;
-
-    // Check if the command xargs will run is read-only
-    if (MINIMAL_COMMANDS.has(xargsCmd)) return false;
-
-    // Unknown or non-minimal command - not safe
-    return true;
-  },
   tee: (tokens) => {
     // tee writes to files unless only used with /dev/null or --
     const args = tokens.slice(1).filter(t => !t.startsWith("-"));
@@ -1104,91 +2775,2155 @@ function isHighLevel(tokens: string[]): boolean {
 }
 
 // ============================================================================
-// CLASSIFY COMMAND
+// CAPABILITY DETECTION
 // ============================================================================
 
-function classifySegment(tokens: string[]): Classification {
-  if (tokens.length === 0) {
-    return { level: "minimal", dangerous: false };
-  }
+// Commands that always connect to remote hosts
+const NETWORK_COMMANDS = new Set([
+  "curl", "wget", "aria2c", "http", "https", "xh", // HTTP clients
+  "nc", "ncat", "netcat", "socat", "telnet", "ftp", "sftp", "ssh", "scp", // raw/remote access
+  "ping", "dig", "nslookup", "host", "traceroute", // DNS and probes (DNS can carry data too)
+  "gh", "aws", "gcloud", "az", // cloud and forge CLIs
+  "kubectl", "helm", "terraform", "pulumi", "ansible", // deployment tools
+]);
+
+// Subcommands that download from or talk to a remote registry/host
+const NETWORK_SUBCOMMANDS: Record<string, Set<string>> = {
+  git: new Set(["push", "pull", "fetch", "clone", "ls-remote", "submodule"]),
+  npm: new Set(["install", "i", "ci", "add", "update", "publish", "view", "info", "search", "outdated", "audit"]),
+  yarn: new Set(["install", "add", "upgrade", "publish", "info", "outdated", "audit"]),
+  pnpm: new Set(["install", "i", "add", "update", "publish", "outdated", "audit"]),
+  bun: new Set(["install", "i", "add", "update", "publish"]),
+  pip: new Set(["install", "download"]),
+  pip3: new Set(["install", "download"]),
+  cargo: new Set(["install", "add", "fetch", "update", "publish", "search"]),
+  go: new Set(["get", "install"]),
+  gem: new Set(["install", "push", "search"]),
+  bundle: new Set(["install", "update"]),
+  composer: new Set(["install", "require", "update"]),
+  docker: new Set(["push", "pull", "login"]),
+  poetry: new Set(["install", "add", "update", "publish"]),
+  twine: new Set(["upload"]),
+};
+
+// Subcommands that send local data or artifacts to a remote
+const PUBLISH_SUBCOMMANDS: Record<string, Set<string>> = {
+  git: new Set(["push"]),
+  npm: new Set(["publish"]),
+  yarn: new Set(["publish"]),
+  pnpm: new Set(["publish"]),
+  bun: new Set(["publish"]),
+  cargo: new Set(["publish"]),
+  gem: new Set(["push"]),
+  docker: new Set(["push"]),
+  helm: new Set(["push"]),
+  poetry: new Set(["publish"]),
+  twine: new Set(["upload"]),
+};
+
+// curl options that upload data
+const CURL_UPLOAD_OPTIONS = /^--(data(-\w+)?|form(-string)?|upload-file|json)(=|$)|^-[a-zA-Z]*[dFT]/;
+
+// Commands that create, modify or move the files they are given
+const WRITE_COMMANDS = new Set(["mkdir", "touch", "cp", "mv", "ln", "install", "truncate", "patch", "unzip"]);
+
+// Commands that remove files
+const DELETE_COMMANDS = new Set(["rm", "rmdir", "unlink", "shred"]);
+
+// Git subcommands that change the working tree or repository
+const GIT_WRITE_SUBCOMMANDS = new Set([
+  "add", "commit", "checkout", "switch", "merge", "rebase", "pull", "clone", "reset",
+  "restore", "stash", "cherry-pick", "revert", "mv", "apply", "init", "am",
+]);
+
+/** Remote rsync/scp location: host:path, user@host:path or rsync://... */
+function isRemoteLocation(arg: string): boolean {
+  return /^[\w.@-]+:/.test(arg) && !arg.startsWith("-");
+}
+
+/** Keep CAPABILITIES order and drop duplicates */
+function mergeCapabilities(...lists: Capability[][]): Capability[] {
+  return CAPABILITIES.filter((c) => lists.some((list) => list.includes(c)));
+}
+
+/**
+ * Detect what a single (unwrapped) command segment is known to do
+ * Commands that run arbitrary programs (interpreters, unknown commands) carry no flags
+ */
+function detectCapabilities(tokens: string[]): Capability[] {
+  if (tokens.length === 0) return [];
 
   const cmd = getCommandName(tokens);
+  const args = tokens.slice(1);
+  const subCmd = args.length > 0 ? args[0].toLowerCase() : "";
+  const operands = args.filter((a) => !a.startsWith("-"));
+  const found = new Set<Capability>();
 
-  // Shell execution commands that can run arbitrary code - always HIGH
-  // These bypass normal command classification since they execute their arguments
-  if (SHELL_EXECUTION_COMMANDS.has(cmd)) {
-    return { level: "high", dangerous: false };
+  // sudo runs its command as root - anything is possible
+  if (cmd === "sudo") return [...CAPABILITIES];
+
+  if (NETWORK_COMMANDS.has(cmd) || NETWORK_SUBCOMMANDS[cmd]?.has(subCmd)) found.add("network");
+  if (PUBLISH_SUBCOMMANDS[cmd]?.has(subCmd)) found.add("publishes");
+
+  if (cmd === "curl") {
+    const method = args.findIndex((a) => a === "-X" || a === "--request");
+    const writeMethod = method >= 0 && /^(POST|PUT|PATCH|DELETE)$/i.test(args[method + 1] ?? "");
+    if (writeMethod || args.some((a) => CURL_UPLOAD_OPTIONS.test(a))) found.add("publishes");
+    if (args.some((a) => /^--(output|remote-name(-all)?)(=|$)|^-[a-zA-Z]*[oO]/.test(a))) found.add("writesFiles");
   }
 
-  if (isDangerousCommand(tokens)) {
-    return { level: "high", dangerous: true };
+  if (cmd === "wget") {
+    if (args.some((a) => /^--(post-data|post-file|method|body-data|body-file)(=|$)/.test(a))) found.add("publishes");
+    // wget saves to disk unless writing to stdout or only checking
+    const toStdout = args.some((a, i) =>
+      /^-\w*O-$/.test(a) || a === "--output-document=-" || (/^-\w*O$/.test(a) && args[i + 1] === "-")
+    );
+    if (!toStdout && !args.includes("--spider")) found.add("writesFiles");
   }
 
-  if (isMinimalLevel(tokens)) {
-    return { level: "minimal", dangerous: false };
+  if (cmd === "scp" || cmd === "rsync") {
+    // Remote destination means local files are sent
+    const destination = operands[operands.length - 1];
+    if (destination && isRemoteLocation(destination)) {
+      found.add("network");
+      found.add("publishes");
+    } else if (operands.some(isRemoteLocation)) {
+      found.add("network");
+    }
+    if (operands.length > 1) found.add("writesFiles");
+    if (cmd === "rsync" && args.some((a) => a.startsWith("--delete") || a === "--remove-source-files")) {
+      found.add("deletesFiles");
+    }
   }
 
-  if (isMediumLevel(tokens)) {
-    return { level: "medium", dangerous: false };
+  if (WRITE_COMMANDS.has(cmd)) found.add("writesFiles");
+  if (DELETE_COMMANDS.has(cmd)) found.add("deletesFiles");
+  if (cmd === "tee" && CONDITIONAL_WRITE_COMMANDS.tee(tokens)) found.add("writesFiles");
+  if ((cmd === "sed" || cmd === "perl") && args.some((a) => /^(-i|--in-place)/.test(a) || /^-[a-hj-zA-Z]*i/.test(a))) {
+    found.add("writesFiles");
   }
+  if (cmd === "dd" && args.some((a) => a.startsWith("of="))) found.add("writesFiles");
+  if (cmd === "tar" && !(args.includes("--list") || /^-?[a-zA-Z]*t[a-zA-Z]*$/.test(args[0] ?? ""))) {
+    found.add("writesFiles"); // everything but listing (-t) extracts or creates an archive
+  }
+  if (cmd === "find" && args.includes("-delete")) found.add("deletesFiles");
 
-  if (isHighLevel(tokens)) {
-    return { level: "high", dangerous: false };
+  if (cmd === "git") {
+    if (GIT_WRITE_SUBCOMMANDS.has(subCmd)) found.add("writesFiles");
+    if (subCmd === "rm" || subCmd === "clean") found.add("deletesFiles");
   }
 
-  // Default: require HIGH for unknown commands
-  return { level: "high", dangerous: false };
+  // Publishing always goes over the network
+  if (found.has("publishes")) found.add("network");
+
+  return mergeCapabilities([...found]);
 }
 
-export function classifyCommand(command: string, config?: PermissionConfig): Classification {
-  // Load config if not provided (for testing)
+/**
+ * Capabilities of a classified command that the config requires confirmation for
+ */
+export function getConfirmableCapabilities(
+  classification: Classification,
+  config?: PermissionConfig
+): Capability[] {
   const effectiveConfig = config ?? getCachedConfig();
+  const confirm = effectiveConfig.capabilities?.confirm ?? [];
+  return classification.capabilities.filter((c) => confirm.includes(c));
+}
 
-  // Step 1: Apply prefix normalization
-  const normalizedCommand = applyPrefixMappings(command, effectiveConfig.prefixMappings);
+// ============================================================================
+// COMMAND WRAPPERS
+// ============================================================================
 
-  const parsed = parseCommand(normalizedCommand);
+interface WrapperSpec {
+  /** Options that take a separate argument (also accepted attached: -n5, --signal=9) */
+  optionsWithArg?: string[];
+  /** Options that make the wrapped command impossible to analyze */
+  unsafeOptions?: string[];
+  /** Options that turn the wrapper into a read-only lookup (command -v) */
+  lookupOptions?: string[];
+  /** Positional arguments before the wrapped command (timeout DURATION) */
+  positional?: number;
+  /** Skip VAR=value assignments before the wrapped command (env) */
+  assignments?: boolean;
+  /** Input lines are appended as extra arguments (xargs) */
+  appendsInput?: boolean;
+  /** Arguments are joined and run through sh -c (watch) */
+  joinsArgs?: boolean;
+  /** Level when no command is wrapped; unset keeps the unknown-command default */
+  bareLevel?: PermissionLevel;
+}
 
-  // If command contains shell tricks (command substitution, backticks, etc.),
-  // require HIGH level as we cannot reliably classify the embedded commands
-  if (parsed.hasShellTricks) {
-    return { level: "high", dangerous: false };
-  }
+// Wrappers whose wrapped command can be classified on its own
+const COMMAND_WRAPPERS: Record<string, WrapperSpec> = {
+  // env without a command prints the environment (may include secrets) - stays high
+  env: {
+    optionsWithArg: ["-u", "--unset", "-C", "--chdir"],
+    unsafeOptions: ["-S", "--split-string"],
+    assignments: true,
+  },
+  command: { lookupOptions: ["-v", "-V"] },
+  time: {
+    optionsWithArg: ["-f", "--format"],
+    unsafeOptions: ["-o", "--output"], // writes timing to a file
+    bareLevel: "minimal",
+  },
+  nice: { optionsWithArg: ["-n", "--adjustment"], bareLevel: "minimal" },
+  nohup: {},
+  timeout: { optionsWithArg: ["-s", "--signal", "-k", "--kill-after"], positional: 1 },
+  watch: { optionsWithArg: ["-n", "--interval", "-q", "--equexit"], joinsArgs: true },
+  // xargs without a command runs /bin/echo
+  xargs: {
+    optionsWithArg: ["-I", "-d", "-E", "-L", "-n", "-P", "-s", "-a"],
+    appendsInput: true,
+    bareLevel: "minimal",
+  },
+};
 
-  // Step 2: Check for override on NORMALIZED command (consistent with classification)
-  const override = checkOverrides(normalizedCommand, effectiveConfig.overrides);
-  if (override) {
-    return override;
-  }
+/** Stands in for the arguments xargs appends from its input */
+const XARGS_INPUT_PLACEHOLDER = "{xargs-input}";
 
-  let maxLevel: PermissionLevel = "minimal";
-  let dangerous = false;
+/** Characters that change meaning when arguments are re-parsed by a shell */
+const SHELL_METACHARACTERS = /[;&|<>()$`\\\n]/;
 
-  // If command writes to files via redirection (>, >>), require at least LOW
-  if (parsed.writesFiles) {
-    maxLevel = "low";
-  }
+type UnwrapResult =
+  | { kind: "inner"; tokens: string[]; assignments: string[] }
+  | { kind: "bare" }
+  | { kind: "lookup" }
+  | { kind: "unsafe"; reason: string };
 
-  for (let i = 0; i < parsed.segments.length; i++) {
-    const segment = parsed.segments[i];
-    const segmentClass = classifySegment(segment);
+/**
+ * Strip a wrapper command and its options, returning the wrapped command
+ */
+function unwrapCommand(tokens: string[], spec: WrapperSpec): UnwrapResult {
+  const args = tokens.slice(1); // Skip the wrapper itself
+  const optionsWithArg = new Set(spec.optionsWithArg ?? []);
+  const unsafeOptions = new Set(spec.unsafeOptions ?? []);
+  const lookupOptions = new Set(spec.lookupOptions ?? []);
+  let positional = spec.positional ?? 0;
+  const assignments: string[] = [];
 
-    if (segmentClass.dangerous) {
-      dangerous = true;
-    }
+  let i = 0;
+  while (i < args.length) {
+    const arg = args[i];
 
-    if (LEVEL_INDEX[segmentClass.level] > LEVEL_INDEX[maxLevel]) {
-      maxLevel = segmentClass.level;
+    // End of options marker
+    if (arg === "--") {
+      i++;
+      break;
     }
 
-    // Check for piping to shell
-    if (i < parsed.segments.length - 1 && parsed.operators[i] === "|") {
-      const nextCmd = getCommandName(parsed.segments[i + 1]);
-      if (["bash", "sh", "zsh", "node", "python", "python3", "ruby", "perl"].includes(nextCmd)) {
-        maxLevel = "high";
+    if (arg.startsWith("-") && arg.length > 1) {
+      const name = arg.startsWith("--") ? arg.split("=")[0] : arg.substring(0, 2);
+      if (unsafeOptions.has(name)) {
+        return { kind: "unsafe", reason: `option ${name} can't be analyzed` };
+      }
+      if (lookupOptions.has(name)) {
+        return { kind: "lookup" };
       }
+      if (optionsWithArg.has(name)) {
+        // Attached (-n5, --signal=9) or separate (-n 5)
+        const attached = arg.startsWith("--") ? arg.includes("=") : arg.length > 2;
+        i += attached ? 1 : 2;
+        continue;
+      }
+      // Flag (possibly combined: -0tr) or long option without argument
+      i++;
+      continue;
+    }
+
+    if (spec.assignments && ASSIGNMENT.test(arg)) {
+      assignments.push(arg);
+      i++;
+      continue;
+    }
+
+    if (positional > 0) {
+      positional--;
+      i++;
+      continue;
     }
+
+    break;
+  }
+
+  const inner = args.slice(i);
+  if (inner.length === 0) return { kind: "bare" };
+
+  if (spec.joinsArgs && inner.some((t) => SHELL_METACHARACTERS.test(t))) {
+    return { kind: "unsafe", reason: "arguments are re-parsed by a shell" };
   }
 
-  return { level: maxLevel, dangerous };
+  return { kind: "inner", tokens: spec.appendsInput ? [...inner, XARGS_INPUT_PLACEHOLDER] : inner, assignments };
+}
+
+// ============================================================================
+// INLINE SCRIPTS
+// ============================================================================
+
+type ScriptLanguage = "shell" | "python" | "node";
+
+interface InlineCodeSpec {
+  language: ScriptLanguage;
+  /** Short option letters that take inline code as the next argument (-c, -e) */
+  codeFlags: string;
+  /** Long options that take inline code (--eval, --eval=...) */
+  longCodeOptions?: string[];
+  /** Other options that take a separate argument */
+  optionsWithArg?: string[];
+}
+
+const SHELL_CODE_SPEC: InlineCodeSpec = { language: "shell", codeFlags: "c", optionsWithArg: ["-o", "+o", "-O", "+O"] };
+const PYTHON_CODE_SPEC: InlineCodeSpec = { language: "python", codeFlags: "c", optionsWithArg: ["-W", "-X"] };
+const NODE_CODE_SPEC: InlineCodeSpec = {
+  language: "node",
+  codeFlags: "ep",
+  longCodeOptions: ["--eval", "--print"],
+  optionsWithArg: ["-r", "--require", "--import", "--loader", "-C", "--conditions"],
+};
+
+function getInlineCodeSpec(cmd: string): InlineCodeSpec | undefined {
+  if (["bash", "sh", "zsh", "dash", "ksh"].includes(cmd)) return SHELL_CODE_SPEC;
+  if (/^python(\d+(\.\d+)?)?$/.test(cmd)) return PYTHON_CODE_SPEC;
+  if (cmd === "node" || cmd === "nodejs") return NODE_CODE_SPEC;
+  return undefined;
+}
+
+type InlineCode =
+  | { kind: "code"; code: string; option: string }
+  | { kind: "missing" } // -c without an argument
+  | { kind: "none" }; // runs a script file, a module or reads stdin
+
+/**
+ * Find the inline code passed to an interpreter (bash -c '...', python3 -c '...', node -e '...')
+ */
+function findInlineCode(tokens: string[], spec: InlineCodeSpec): InlineCode {
+  const args = tokens.slice(1);
+  const optionsWithArg = new Set(spec.optionsWithArg ?? []);
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg.startsWith("--")) {
+      const [name, value] = arg.split(/=(.*)/s);
+      if (spec.longCodeOptions?.includes(name)) {
+        if (value !== undefined) return { kind: "code", code: value, option: name };
+        return i + 1 < args.length ? { kind: "code", code: args[i + 1], option: name } : { kind: "missing" };
+      }
+      if (optionsWithArg.has(name) && value === undefined) i++;
+      if (arg === "--") return { kind: "none" };
+      continue;
+    }
+
+    if (optionsWithArg.has(arg)) {
+      i++;
+      continue;
+    }
+
+    // Flag cluster such as -c, -ec, -lc, -pe
+    if (/^[-+][a-zA-Z]+$/.test(arg)) {
+      if ([...arg.slice(1)].some((flag) => spec.codeFlags.includes(flag))) {
+        return i + 1 < args.length ? { kind: "code", code: args[i + 1], option: arg } : { kind: "missing" };
+      }
+      continue;
+    }
+
+    // First operand is a script file or module - no inline code
+    return { kind: "none" };
+  }
+
+  return { kind: "none" };
+}
+
+/**
+ * Modules one-liners may import without losing the read-only classification
+ * Modules that re-export os, sys or subprocess (glob.os, collections._sys, ...) are left out,
+ * and so is Node's fs - reading files is left to the read tool
+ */
+const READ_ONLY_MODULES: Record<Exclude<ScriptLanguage, "shell">, string[]> = {
+  python: [
+    "json", "sys", "re", "math", "itertools", "functools", "operator", "time", "string", "textwrap",
+    "decimal", "hashlib", "base64", "binascii", "csv", "unicodedata", "difflib", "tomllib", "struct",
+    "zlib", "bisect", "heapq", "copy",
+  ],
+  node: [
+    "path", "util", "url", "querystring", "assert", "crypto", "buffer", "string_decoder", "events",
+  ],
+};
+
+// Calls and names that execute code, reach the network, write files or read the environment
+const UNSAFE_CODE_PATTERNS: Record<Exclude<ScriptLanguage, "shell">, RegExp[]> = {
+  python: [
+    /\b(exec|eval|compile|__import__|breakpoint|getattr|setattr|delattr|globals|locals|vars|input)\s*\(/,
+    /__\w+__/, // dunder access (__class__, __builtins__, ...)
+    // Modules reachable as attributes (glob.os, collections._sys) and sys internals besides the standard streams
+    /\.\s*_*(os|sys|subprocess|builtins|bltns|posix|nt|getattr)\b/,
+    /\bsys\.(?!(stdin|stdout|stderr|argv|version|version_info|platform|maxsize|byteorder|exit)\b)/,
+    /\.(write|writelines|write_text|write_bytes|touch|mkdir|rmdir|unlink|rename|symlink_to|chmod|open)\s*\(/,
+    /\.(system|popen|remove|removedirs|spawn\w*|exec\w+|kill|killpg|fork\w*|putenv)\s*\(/,
+  ],
+  node: [
+    /\b(eval|Function|import|fetch)\s*\(/,
+    /\b(constructor|mainModule|globalThis|global|this|Reflect|Proxy)\b/,
+    /\brequire\b(?!\s*\()/, // aliased require
+    /\bprocess\b(?!\.(argv|version|versions|platform|arch|cwd|stdout|stderr|stdin|pid|uptime|memoryUsage|hrtime)\b)/,
+    /\b(writeFile|appendFile|unlink|rmdir|mkdir|mkdtemp|rename|copyFile|symlink|chmod|chown|lchown|truncate|createWriteStream|utimes|lutimes|rmSync|cpSync|openSync|writeSync|writev)\w*\b/,
+    /\.(rm|cp|link|open|write)\s*\(/,
+  ],
+};
+
+/** Computed property access (fs[name]) can reach any method - literal indexes are fine */
+const COMPUTED_MEMBER_ACCESS = /[\w$)\]]\s*\[(?!\s*-?\d+\s*\])/;
+
+/** Python open() calls must be read-only: no mode argument, or a literal "r"/"rb"/"rt" */
+function hasWritableOpen(source: string): boolean {
+  for (const m of source.matchAll(/\bopen\s*\(/g)) {
+    // Collect the argument list up to the matching parenthesis
+    let depth = 1;
+    let args = "";
+    for (let i = m.index + m[0].length; i < source.length && depth > 0; i++) {
+      const ch = source[i];
+      if (ch === "(") depth++;
+      if (ch === ")") depth--;
+      if (depth > 0) args += ch;
+    }
+    const extra = args.split(",").slice(1).map((a) => a.trim()).filter((a) => a.length > 0);
+    for (const arg of extra) {
+      if (/^(mode\s*=\s*)?(['"])r[bt]?\2$/.test(arg)) continue;
+      if (/^(encoding|errors|newline)\s*=/.test(arg)) continue;
+      return true;
+    }
+  }
+  return false;
+}
+
+const DEFAULT_INLINE_MAX_LENGTH = 300;
+
+/**
+ * Decide whether a python/node one-liner only reads: every import is on the
+ * read-only module list and no call executes code, writes files or uses the network
+ */
+function checkOneLiner(
+  language: Exclude<ScriptLanguage, "shell">,
+  code: string,
+  rules: InlineScriptRules | undefined
+): { readOnly: boolean; reason: string } {
+  if (rules?.enabled === false) {
+    return { readOnly: false, reason: "inline script heuristic is disabled" };
+  }
+
+  const maxLength = rules?.maxLength ?? DEFAULT_INLINE_MAX_LENGTH;
+  if (code.length > maxLength) {
+    return { readOnly: false, reason: `script is longer than ${maxLength} characters` };
+  }
+
+  const allowed = new Set([...READ_ONLY_MODULES[language], ...(rules?.allowedModules?.[language] ?? [])]);
+  // Printing to stdout is fine even though it is a write() call; obj['name'] is the same as obj.name
+  const source = code
+    .replace(/\b(sys|process)\.(stdout|stderr)\.write\s*\(/g, "print(")
+    .replace(/\[\s*(['"`])([^'"`\\\]]+)\1\s*\]/g, ".$2");
+
+  const modules: string[] = [];
+  if (language === "python") {
+    for (const m of source.matchAll(/\bimport\s+([\w.]+(?:\s*,\s*[\w.]+)*)/g)) {
+      modules.push(...m[1].split(",").map((name) => name.trim()));
+    }
+    for (const m of source.matchAll(/\bfrom\s+([\w.]+)\s+import\b/g)) modules.push(m[1]);
+  } else {
+    for (const m of source.matchAll(/\brequire\s*\(([^)]*)\)/g)) {
+      const literal = /^\s*(['"`])([^'"`]+)\1\s*$/.exec(m[1]);
+      if (!literal) return { readOnly: false, reason: "require() with a computed module name" };
+      // Local JSON files are data, not code
+      if (/^\.{1,2}\/.*\.json$/.test(literal[2])) continue;
+      modules.push(literal[2].replace(/^node:/, ""));
+    }
+    for (const m of source.matchAll(/\bfrom\s+(['"])([^'"]+)\1/g)) modules.push(m[2].replace(/^node:/, ""));
+  }
+
+  for (const name of modules) {
+    const root = name.split(/[./]/)[0];
+    if (!allowed.has(root) && !allowed.has(name)) {
+      return { readOnly: false, reason: `imports "${name}", which is not on the read-only module list` };
+    }
+  }
+
+  for (const pattern of UNSAFE_CODE_PATTERNS[language]) {
+    const match = pattern.exec(source);
+    if (match) {
+      return { readOnly: false, reason: `uses "${match[0].trim()}"` };
+    }
+  }
+
+  if (language === "node" && COMPUTED_MEMBER_ACCESS.test(source)) {
+    return { readOnly: false, reason: "uses computed property access" };
+  }
+
+  if (language === "python" && hasWritableOpen(source)) {
+    return { readOnly: false, reason: "open() with a mode that may write" };
+  }
+
+  return { readOnly: true, reason: `read-only ${language} code` };
+}
+
+/**
+ * Classify a shell script with the full command engine
+ */
+function classifyShellScript(script: string, config: PermissionConfig): SegmentResult {
+  const explanation = explainCommand(script, config);
+  const parts = [
+    ...explanation.segments.map((s) => s.reason),
+    ...explanation.reasons,
+  ];
+  return { ...explanation.classification, reason: parts.join("; ") || "empty script" };
+}
+
+/**
+ * Classify an interpreter invocation whose program is visible: inline code or a heredoc on stdin
+ * Returns null when the program lives elsewhere (script file, module, piped stdin)
+ */
+function classifyInlineProgram(
+  tokens: string[],
+  spec: InlineCodeSpec,
+  config: PermissionConfig,
+  stdin?: Heredoc
+): SegmentResult | null {
+  const cmd = getCommandName(tokens);
+  const inline = findInlineCode(tokens, spec);
+
+  let code: string;
+  let source: string;
+  if (inline.kind === "code") {
+    code = inline.code;
+    source = `${cmd} ${inline.option}`;
+  } else if (inline.kind === "missing") {
+    return { level: "high", dangerous: false, capabilities: [], reason: `"${cmd}" inline code option without code (requires High)` };
+  } else if (stdin && tokens.slice(1).every((arg) => arg.startsWith("-"))) {
+    // No script operand - the interpreter runs the heredoc
+    code = stdin.body;
+    source = `${cmd} heredoc`;
+  } else {
+    return null;
+  }
+
+  if (spec.language === "shell") {
+    const result = classifyShellScript(code, config);
+    return { ...result, reason: `${source} script → ${result.reason}` };
+  }
+
+  const check = checkOneLiner(spec.language, code, config.inlineScripts);
+  if (check.readOnly) {
+    return { level: "minimal", dangerous: false, capabilities: [], reason: `${source}: ${check.reason}` };
+  }
+  return { level: "high", dangerous: false, capabilities: [], reason: `${source}: ${check.reason} (requires High)` };
+}
+
+// ============================================================================
+// CLASSIFY COMMAND
+// ============================================================================
+
+interface SegmentResult extends Classification {
+  reason: string;
+}
+
+/**
+ * Classify a command segment, applying argv-aware override rules first
+ * Rules decide the level; capabilities still come from the built-in classification
+ */
+function classifySegment(
+  tokens: string[],
+  config: PermissionConfig,
+  stdin?: Heredoc,
+  assignments: string[] = [],
+  dir?: string | null
+): SegmentResult {
+  if (tokens.length === 0 && assignments.length > 0) {
+    const variable = findDangerousVariable(assignments, config);
+    if (variable) {
+      return {
+        level: "high",
+        dangerous: false,
+        capabilities: [...CAPABILITIES],
+        reason: `sets ${variable}, which changes what later commands run (requires High)`,
+      };
+    }
+    return { level: "minimal", dangerous: false, capabilities: [], reason: "shell variable assignment" };
+  }
+
+  const result = classifyCommandWords(tokens, config, stdin, dir);
+  if (assignments.length === 0) return result;
+
+  // A variable that changes what runs (LD_PRELOAD, PATH, NODE_OPTIONS, GIT_DIR) hides the real behavior
+  const variable = findDangerousVariable(assignments, config);
+  if (variable) {
+    return {
+      level: "high",
+      dangerous: result.dangerous,
+      capabilities: [...CAPABILITIES],
+      reason: `sets ${variable}, which changes what "${getCommandName(tokens)}" runs (requires High)`,
+    };
+  }
+  return { ...result, reason: `with ${assignments.map((a) => a.split("=")[0]).join(", ")} set: ${result.reason}` };
+}
+
+function classifyCommandWords(
+  tokens: string[],
+  config: PermissionConfig,
+  stdin?: Heredoc,
+  dir?: string | null
+): SegmentResult {
+  const result = classifyBuiltin(tokens, config, stdin, dir);
+  const override = checkSegmentOverrides(tokens, config.overrides);
+  if (!override) return result;
+  return {
+    ...override.classification,
+    capabilities: result.capabilities,
+    reason: `matches "${override.list}" override rule ${override.pattern}`,
+  };
+}
+
+function classifyBuiltin(
+  tokens: string[],
+  config: PermissionConfig,
+  stdin?: Heredoc,
+  dir?: string | null
+): SegmentResult {
+  if (tokens.length === 0) {
+    return { level: "minimal", dangerous: false, capabilities: [], reason: "empty segment" };
+  }
+
+  const cmd = getCommandName(tokens);
+
+  // Wrappers (env, timeout, nice, xargs, ...) - classify the wrapped command
+  const wrapper = COMMAND_WRAPPERS[cmd];
+  if (wrapper) {
+    const unwrapped = unwrapCommand(tokens, wrapper);
+    switch (unwrapped.kind) {
+      case "inner": {
+        const inner = classifySegment(unwrapped.tokens, config, stdin, unwrapped.assignments, dir);
+        return { ...inner, reason: `${cmd} runs "${unwrapped.tokens.join(" ")}" → ${inner.reason}` };
+      }
+      case "lookup":
+        return { level: "minimal", dangerous: false, capabilities: [], reason: `"${cmd}" only looks up a command` };
+      case "bare":
+        if (wrapper.bareLevel) {
+          return { level: wrapper.bareLevel, dangerous: false, capabilities: [], reason: `"${cmd}" without a command` };
+        }
+        return {
+          level: "high",
+          dangerous: false,
+          capabilities: [],
+          reason: `"${cmd}" without a command is not classified (requires High)`,
+        };
+      case "unsafe":
+        // The wrapped command can't be seen, so any side effect is possible
+        return {
+          level: "high",
+          dangerous: false,
+          capabilities: [...CAPABILITIES],
+          reason: `"${cmd}" ${unwrapped.reason} (requires High)`,
+        };
+    }
+  }
+
+  // package.json scripts and Makefile targets - classify what they actually run
+  if (config.scripts?.resolve && dir) {
+    const script = classifyProjectScript(tokens, config, dir);
+    if (script) return script;
+  }
+
+  // Interpreters with a visible program (bash -c, python3 -c, node -e, heredocs)
+  const codeSpec = getInlineCodeSpec(cmd);
+  if (codeSpec) {
+    const inline = classifyInlineProgram(tokens, codeSpec, config, stdin);
+    if (inline) return inline;
+  }
+
+  // Shell execution commands that can run arbitrary code - always HIGH
+  // These bypass normal command classification since they execute their arguments
+  if (SHELL_EXECUTION_COMMANDS.has(cmd)) {
+    return {
+      level: "high",
+      dangerous: false,
+      capabilities: [...CAPABILITIES],
+      reason: `"${cmd}" can execute arbitrary commands (shell execution command)`,
+    };
+  }
+
+  const capabilities = detectCapabilities(tokens);
+
+  if (cmd === "git") {
+    const gitReason = getDestructiveGitReason(tokens, config);
+    if (gitReason) {
+      return { level: "high", dangerous: true, capabilities, reason: `git ${gitReason} (dangerous)` };
+    }
+  }
+
+  if (isDangerousCommand(tokens)) {
+    return { level: "high", dangerous: true, capabilities, reason: `"${cmd}" with these arguments is a dangerous command` };
+  }
+
+  if (isMinimalLevel(tokens)) {
+    return { level: "minimal", dangerous: false, capabilities, reason: "read-only command" };
+  }
+
+  if (isMediumLevel(tokens)) {
+    return { level: "medium", dangerous: false, capabilities, reason: "build, install, test or local file/git operation" };
+  }
+
+  if (isHighLevel(tokens)) {
+    return {
+      level: "high",
+      dangerous: false,
+      capabilities,
+      reason: `"${cmd}" is a known remote, deployment or irreversible operation`,
+    };
+  }
+
+  // Default: require HIGH for unknown commands
+  return {
+    level: "high",
+    dangerous: false,
+    capabilities,
+    reason: `"${cmd}" is not a recognized command (unknown commands require High)`,
+  };
+}
+
+/**
+ * Classify a command and explain how the classification was reached
+ */
+export function explainCommand(command: string, config?: PermissionConfig, cwd?: string): CommandExplanation {
+  // Load config if not provided (for testing)
+  const effectiveConfig = config ?? getCachedConfig();
+
+  // Step 1: Apply prefix normalization
+  const normalizedCommand = applyPrefixMappings(command, effectiveConfig.prefixMappings);
+
+  const parsed = parseCommand(normalizedCommand);
+  const explanation: CommandExplanation = {
+    command,
+    normalizedCommand,
+    classification: { level: "minimal", dangerous: false, capabilities: [] },
+    segments: [],
+    reasons: [],
+  };
+
+  // If command contains shell tricks (command substitution, backticks, etc.),
+  // require HIGH level as we cannot reliably classify the embedded commands
+  if (parsed.hasShellTricks) {
+    // Embedded commands are hidden, so any side effect is possible
+    explanation.classification = { level: "high", dangerous: false, capabilities: [...CAPABILITIES] };
+    explanation.reasons.push(`${parsed.shellTrickReason} - requires High`);
+    return explanation;
+  }
+
+  // Capabilities come from the segments even when an override decides the level
+  const directories = getSegmentDirectories(parsed.segments, cwd ?? process.cwd());
+  const segmentResults = parsed.segments.map((segment, i) =>
+    classifySegment(segment, effectiveConfig, parsed.heredocs?.[i], parsed.assignments?.[i], directories[i])
+  );
+  const capabilities = mergeCapabilities(
+    parsed.writesFiles ? ["writesFiles"] : [],
+    ...segmentResults.map((r) => r.capabilities)
+  );
+
+  // Step 2: Check for override on NORMALIZED command (consistent with classification)
+  const override = checkOverrides(normalizedCommand, effectiveConfig.overrides);
+  if (override) {
+    explanation.classification = { ...override.classification, capabilities };
+    explanation.reasons.push(`matches "${override.list}" override pattern "${override.pattern}"`);
+    return explanation;
+  }
+
+  // Trash mode: an rm of project files only moves them into the session trash
+  const trashed = getTrashedProjectFiles(normalizedCommand, cwd ?? process.cwd(), effectiveConfig);
+  if (trashed) {
+    const classification: Classification = { level: "medium", dangerous: false, capabilities };
+    const reason = `moves ${trashed.length === 1 ? "1 path" : `${trashed.length} paths`} into the trash (trash enabled) - requires Medium`;
+    explanation.classification = classification;
+    explanation.segments.push({ command: parsed.segments[0].join(" "), classification, reason });
+    explanation.reasons.push(reason);
+    return explanation;
+  }
+
+  let maxLevel: PermissionLevel = "minimal";
+  let dangerous = false;
+  let allowedRoots: string[] | undefined;
+
+  // If command writes to files via redirection (>, >>), require at least LOW
+  if (parsed.writesFiles) {
+    maxLevel = "low";
+    explanation.reasons.push("output redirection to a file requires at least Low");
+  }
+
+  for (let i = 0; i < parsed.segments.length; i++) {
+    const segment = parsed.segments[i];
+    let { reason, ...segmentClass } = segmentResults[i];
+
+    // Side effects outside the project: one level higher, or always prompt
+    const outside = effectiveConfig.directories?.outside ?? "raise";
+    const dir = directories[i];
+    if (outside !== "ignore" && segmentClass.level !== "minimal" && dir !== path.resolve(cwd ?? process.cwd())) {
+      allowedRoots ??= getAllowedRoots(cwd ?? process.cwd(), effectiveConfig);
+      if (dir === null || !isInsideRoots(dir, allowedRoots)) {
+        const where = dir ?? "an unknown directory";
+        if (outside === "prompt") {
+          segmentClass = { ...segmentClass, dangerous: true };
+          reason = `${reason}; runs in ${where}, outside the project (dangerous)`;
+        } else if (segmentClass.level !== "high") {
+          const raised = LEVELS[LEVEL_INDEX[segmentClass.level] + 1];
+          segmentClass = { ...segmentClass, level: raised };
+          reason = `${reason}; runs in ${where}, outside the project - raised to ${raised}`;
+        }
+      }
+    }
+
+    const words = [...(parsed.assignments?.[i] ?? []), ...segment];
+    explanation.segments.push({ command: words.join(" "), classification: segmentClass, reason });
+
+    if (segmentClass.dangerous) {
+      dangerous = true;
+    }
+
+    if (LEVEL_INDEX[segmentClass.level] > LEVEL_INDEX[maxLevel]) {
+      maxLevel = segmentClass.level;
+    }
+
+    // Check for piping to shell (inline code reads the piped input as data, not as a program)
+    if (i < parsed.segments.length - 1 && parsed.operators[i] === "|") {
+      const next = parsed.segments[i + 1];
+      const nextCmd = getCommandName(next);
+      const nextSpec = getInlineCodeSpec(nextCmd);
+      const runsInlineCode = nextSpec !== undefined && findInlineCode(next, nextSpec).kind === "code";
+      if (["bash", "sh", "zsh", "node", "python", "python3", "ruby", "perl"].includes(nextCmd) && !runsInlineCode) {
+        maxLevel = "high";
+        explanation.reasons.push(`pipes into "${nextCmd}", which executes its input - requires High`);
+      }
+    }
+  }
+
+  explanation.classification = { level: maxLevel, dangerous, capabilities };
+  return explanation;
+}
+
+export function classifyCommand(command: string, config?: PermissionConfig, cwd?: string): Classification {
+  return explainCommand(command, config, cwd).classification;
+}
+
+// ============================================================================
+// REMEMBERED APPROVALS
+// ============================================================================
+
+/** Tokens that can be used verbatim in a glob pattern */
+const PLAIN_TOKEN = /^[\w@./:=+,-]+$/;
+
+function parseSimpleCommand(normalizedCommand: string): string[] | null {
+  const parsed = parseCommand(normalizedCommand);
+  if (parsed.hasShellTricks || parsed.writesFiles) return null;
+  // An approval for "npm test" must not cover "NODE_OPTIONS=... npm test"
+  if (parsed.assignments && Object.keys(parsed.assignments).length > 0) return null;
+  if (parsed.heredocs && Object.keys(parsed.heredocs).length > 0) return null;
+  if (parsed.segments.length !== 1 || parsed.operators.length > 0) return null;
+  return parsed.segments[0];
+}
+
+/**
+ * Suggest a reusable prefix pattern for a command, e.g. "docker compose ps" → "docker compose *"
+ * The prefix is the command name plus its first non-flag argument (the subcommand).
+ * Returns null for compound commands, redirections or shell tricks.
+ */
+export function suggestCommandPattern(command: string, config?: PermissionConfig): string | null {
+  const normalized = normalizeCommand(command, config).trim();
+  const tokens = parseSimpleCommand(normalized);
+  if (!tokens || tokens.length === 0 || !PLAIN_TOKEN.test(tokens[0])) return null;
+
+  const prefix = [tokens[0]];
+  const subCmd = tokens[1];
+  if (subCmd && !subCmd.startsWith("-") && PLAIN_TOKEN.test(subCmd)) {
+    prefix.push(subCmd);
+  }
+
+  // Pattern must match the command itself: only add a wildcard if there are more args
+  return tokens.length > prefix.length ? `${prefix.join(" ")} *` : prefix.join(" ");
+}
+
+/**
+ * Check a command against a remembered approval pattern
+ * Only simple commands match - a pattern never approves a pipeline or chain
+ */
+export function matchesCommandPattern(command: string, pattern: string, config?: PermissionConfig): boolean {
+  const normalized = normalizeCommand(command, config).trim();
+  if (!parseSimpleCommand(normalized)) return false;
+  return getCachedRegex(pattern).test(normalized);
+}
+
+/**
+ * Persist an override pattern in the global config
+ */
+export function addGlobalOverride(list: typeof OVERRIDE_KEYS[number], pattern: string): void {
+  const config = loadGlobalPermissionConfig();
+  const overrides = { ...config.overrides };
+  const patterns = overrides[list] ?? [];
+  if (!patterns.includes(pattern)) {
+    overrides[list] = [...patterns, pattern];
+  }
+  savePermissionConfig({ ...config, overrides });
+  invalidateConfigCache();
+}
+
+// ============================================================================
+// REWRITE SUGGESTIONS
+// ============================================================================
+
+/** Built-in safer equivalents, tried after the configured rules */
+const DEFAULT_REWRITES: RewriteRule[] = [
+  {
+    match: { command: "rm", regex: "\\s(-[a-zA-Z]*[rR][a-zA-Z]*|--recursive)(\\s|$)" },
+    suggest: "move the files to a trash directory instead of deleting them",
+    replace: { from: "^(?:\\S*/)?rm\\s+(?:-\\S*\\s+)*(?!-)(.+?)\\s*$", to: "mkdir -p .trash && mv $1 .trash/" },
+  },
+  {
+    match: { command: "git", args: ["push"], flags: ["--force"] },
+    suggest: "use --force-with-lease so the push fails if someone else updated the branch",
+    replace: { from: "(\\s)--force(?=\\s|$)", to: "$1--force-with-lease" },
+  },
+  {
+    match: { command: "git", args: ["push"], flags: ["-f"] },
+    suggest: "use --force-with-lease so the push fails if someone else updated the branch",
+    replace: { from: "(\\s)-f(?=\\s|$)", to: "$1--force-with-lease" },
+  },
+  {
+    redirect: true,
+    match: { regex: "^(echo|printf|cat)( |$)" },
+    suggest: "use the write tool to create or overwrite files instead of shell redirection",
+  },
+];
+
+export interface RewriteSuggestion {
+  /** Hint from the matching rule */
+  suggest: string;
+  /** The rewritten command, when the rule has a replacement that applies */
+  command?: string;
+}
+
+function matchesRewriteRule(rule: RewriteRule, normalized: string, parsed: ParsedCommand): boolean {
+  if (rule.redirect && !parsed.writesFiles) return false;
+  if (rule.match === undefined) return !!rule.redirect;
+  if (typeof rule.match === 'string') return getCachedRegex(rule.match).test(normalized);
+  const match = rule.match;
+  return parsed.segments.some((segment) => matchesOverrideRule(segment, match));
+}
+
+/**
+ * Find a safer equivalent for a command, used to explain how to proceed when it's blocked
+ * Returns null when no rule matches
+ */
+export function suggestRewrite(command: string, config?: PermissionConfig): RewriteSuggestion | null {
+  const effectiveConfig = config ?? getCachedConfig();
+  const normalized = applyPrefixMappings(command, effectiveConfig.prefixMappings).trim();
+  const parsed = parseCommand(normalized);
+
+  const rules = [
+    ...(effectiveConfig.rewrites?.rules ?? []),
+    ...(effectiveConfig.rewrites?.defaults === false ? [] : DEFAULT_REWRITES),
+  ];
+  const rule = rules.find((r) => matchesRewriteRule(r, normalized, parsed));
+  if (!rule) return null;
+
+  const suggestion: RewriteSuggestion = { suggest: rule.suggest };
+  if (rule.replace) {
+    const trimmed = command.trim();
+    const rewritten = trimmed.replace(getCachedRuleRegex(rule.replace.from), rule.replace.to);
+    if (rewritten !== trimmed) suggestion.command = rewritten;
+  }
+  return suggestion;
+}
+
+/** One-line form of a suggestion for block reasons and explanations */
+export function formatRewriteSuggestion(suggestion: RewriteSuggestion): string {
+  return suggestion.command ? `${suggestion.suggest}: ${suggestion.command}` : suggestion.suggest;
+}
+
+// ============================================================================
+// TOOL POLICIES
+// ============================================================================
+
+/** Built-in rules for tools other than bash/write/edit */
+const BUILTIN_TOOL_RULES: ToolRule[] = [
+  // pi read-only tools
+  { tool: "read", level: "minimal" },
+  { tool: "grep", level: "minimal" },
+  { tool: "find", level: "minimal" },
+  { tool: "ls", level: "minimal" },
+  // lsp queries are read-only, but rename applies a WorkspaceEdit to disk
+  { tool: "lsp", level: "minimal" },
+  { tool: "lsp", args: { action: "rename" }, level: "low" },
+];
+
+const DEFAULT_TOOL_LEVEL: PermissionLevel = "medium";
+
+export interface ToolClassification {
+  level: PermissionLevel;
+  /** Rule that decided the level, absent when the default applied */
+  rule?: ToolRule;
+  /** Where the deciding rule came from */
+  source: "config" | "builtin" | "default";
+}
+
+function matchesToolRule(rule: ToolRule, toolName: string, input: Record<string, unknown>): boolean {
+  if (!getCachedRegex(rule.tool).test(toolName)) return false;
+  if (!rule.args) return true;
+
+  return Object.entries(rule.args).every(([key, pattern]) => {
+    const value = input[key];
+    if (value === undefined || value === null || typeof value === "object") return false;
+    return getCachedRegex(pattern).test(String(value));
+  });
+}
+
+function mostRestrictiveRule(rules: ToolRule[]): ToolRule | undefined {
+  let result: ToolRule | undefined;
+  for (const rule of rules) {
+    if (!result || LEVEL_INDEX[rule.level] > LEVEL_INDEX[result.level]) {
+      result = rule;
+    }
+  }
+  return result;
+}
+
+/**
+ * Classify a call to a tool other than bash/write/edit
+ * Matching config rules take precedence over built-in rules; within a layer the most restrictive match wins
+ */
+export function classifyToolCall(
+  toolName: string,
+  input: Record<string, unknown>,
+  config?: PermissionConfig
+): ToolClassification {
+  const effectiveConfig = config ?? getCachedConfig();
+
+  const configRule = mostRestrictiveRule(
+    (effectiveConfig.tools?.rules ?? []).filter((r) => matchesToolRule(r, toolName, input))
+  );
+  if (configRule) return { level: configRule.level, rule: configRule, source: "config" };
+
+  const builtinRule = mostRestrictiveRule(BUILTIN_TOOL_RULES.filter((r) => matchesToolRule(r, toolName, input)));
+  if (builtinRule) return { level: builtinRule.level, rule: builtinRule, source: "builtin" };
+
+  return { level: effectiveConfig.tools?.default ?? DEFAULT_TOOL_LEVEL, source: "default" };
+}
+
+// ============================================================================
+// WRITE PATH RULES
+// ============================================================================
+
+export interface WritePathCheck {
+  /** Absolute, normalized path that was checked */
+  resolvedPath: string;
+  /** True if the path is denied or outside the allowed paths */
+  denied: boolean;
+  /** Human-readable reason when denied */
+  reason?: string;
+  /** What to do on denial (from config, defaults to "ask") */
+  onDeny: "ask" | "block";
+}
+
+/**
+ * Find the repository root by walking up from cwd looking for .git
+ * Falls back to cwd when not inside a repository
+ */
+export function findRepoRoot(cwd: string): string {
+  let currentDir = path.resolve(cwd);
+  while (true) {
+    if (fs.existsSync(path.join(currentDir, ".git"))) return currentDir;
+
+    const parentDir = path.dirname(currentDir);
+    if (parentDir === currentDir) return path.resolve(cwd);
+    currentDir = parentDir;
+  }
+}
+
+function expandHome(p: string): string {
+  const home = process.env.HOME || "";
+  if (p === "~") return home;
+  if (p.startsWith("~/")) return path.join(home, p.slice(2));
+  return p;
+}
+
+/**
+ * Convert a path glob to a RegExp
+ * Supports: ** (any path segments), * (any chars except /), ? (single char except /)
+ * A trailing /** also matches the directory itself
+ */
+function pathGlobToRegex(pattern: string): RegExp {
+  let regex = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, trailing "**" matches everything
+        if (pattern[i + 2] === "/") {
+          regex += "(?:.*/)?";
+          i += 2;
+        } else {
+          regex += ".*";
+          i += 1;
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (ch === "?") {
+      regex += "[^/]";
+    } else {
+      regex += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  // dir/** should also match dir itself
+  regex = regex.replace(/\/\.\*$/, "(?:/.*)?");
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * A path plus the path it really refers to once symlinks are resolved
+ * For a path that doesn't exist yet, the nearest existing parent is resolved
+ */
+function getPathCandidates(resolvedPath: string): string[] {
+  let realPath: string | undefined;
+  let suffix = "";
+  let current = resolvedPath;
+  while (realPath === undefined) {
+    try {
+      realPath = path.join(fs.realpathSync(current), suffix);
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return [resolvedPath];
+      suffix = path.join(path.basename(current), suffix);
+      current = parent;
+    }
+  }
+  return realPath === resolvedPath ? [resolvedPath] : [resolvedPath, realPath];
+}
+
+function resolvePathPattern(pattern: string, repoRoot: string): string {
+  const expanded = expandHome(pattern);
+  return path.isAbsolute(expanded) ? expanded : path.join(repoRoot, expanded);
+}
+
+function matchesPathPattern(filePath: string, pattern: string, repoRoot: string): boolean {
+  const resolved = resolvePathPattern(pattern, repoRoot);
+  let regex = pathRegexCache.get(resolved);
+  if (!regex) {
+    if (pathRegexCache.size >= MAX_REGEX_CACHE_SIZE) {
+      const firstKey = pathRegexCache.keys().next().value;
+      if (firstKey) pathRegexCache.delete(firstKey);
+    }
+    regex = pathGlobToRegex(resolved);
+    pathRegexCache.set(resolved, regex);
+  }
+  return regex.test(filePath);
+}
+
+/**
+ * Check a write/edit target against the configured path rules
+ * Relative patterns are resolved against the repository root, absolute and ~ patterns as-is
+ */
+export function checkWritePath(filePath: string, cwd: string, config?: PermissionConfig): WritePathCheck {
+  const effectiveConfig = config ?? getCachedConfig();
+  const rules = effectiveConfig.writePaths;
+  const resolvedPath = path.resolve(cwd, expandHome(filePath));
+  const onDeny = rules?.onDeny ?? "ask";
+
+  if (!rules) {
+    return { resolvedPath, denied: false, onDeny };
+  }
+
+  const repoRoot = findRepoRoot(cwd);
+  // Writing through a symlink writes its target, so both paths must pass
+  // (relative patterns are tried against the repo root's real path too, for repos under a symlink)
+  const candidates = getPathCandidates(resolvedPath);
+  const repoRoots = getPathCandidates(repoRoot);
+  const matches = (candidate: string, pattern: string) => repoRoots.some((root) => matchesPathPattern(candidate, pattern, root));
+
+  for (const candidate of candidates) {
+    const denyPattern = rules.deny?.find((p) => matches(candidate, p));
+    if (denyPattern) {
+      return { resolvedPath, denied: true, reason: `matches deny pattern "${denyPattern}"`, onDeny };
+    }
+  }
+
+  if (rules.allow && rules.allow.length > 0) {
+    const allowed = candidates.every((candidate) => rules.allow!.some((p) => matches(candidate, p)));
+    if (!allowed) {
+      return { resolvedPath, denied: true, reason: "outside allowed write paths", onDeny };
+    }
+  }
+
+  return { resolvedPath, denied: false, onDeny };
+}
+
+// ============================================================================
+// SECRET PATHS
+// ============================================================================
+
+// Common credential files - "/**/" prefixes match anywhere, so $HOME expanding to "" still matches
+export const DEFAULT_SECRET_PATHS = [
+  "/**/.env",
+  "/**/.env.*",
+  "/**/.envrc",
+  "/**/.ssh/id_*",
+  "/**/.ssh/*_key",
+  "/**/*.pem",
+  "/**/*.key",
+  "/**/*.p12",
+  "/**/*.pfx",
+  "/**/*.keystore",
+  "/**/*.jks",
+  "/**/.aws/credentials",
+  "/**/.aws/sso/cache/**",
+  "/**/.config/gcloud/**",
+  "/**/.azure/**",
+  "/**/.kube/config",
+  "/**/.docker/config.json",
+  "/**/.netrc",
+  "/**/.npmrc",
+  "/**/.pypirc",
+  "/**/.git-credentials",
+  "/**/.config/gh/hosts.yml",
+  "/**/.gnupg/**",
+  "/**/.pi/agent/auth.json",
+  "/etc/shadow",
+];
+
+// Templates and public halves that are safe to read
+const DEFAULT_SECRET_EXCEPTIONS = [
+  "/**/.env.example",
+  "/**/.env.sample",
+  "/**/.env.template",
+  "/**/.ssh/*.pub",
+];
+
+export interface SecretPathMatch {
+  /** Absolute path that matched */
+  resolvedPath: string;
+  /** Sensitive path glob it matched */
+  pattern: string;
+  onRead: "ask" | "block";
+}
+
+function matchSecretPath(
+  resolvedPath: string,
+  rules: SecretPathRules | undefined,
+  repoRoot: string
+): SecretPathMatch | null {
+  const useDefaults = rules?.defaults !== false;
+  const exceptions = [...(useDefaults ? DEFAULT_SECRET_EXCEPTIONS : []), ...(rules?.allow ?? [])];
+  const patterns = [...(useDefaults ? DEFAULT_SECRET_PATHS : []), ...(rules?.deny ?? [])];
+
+  // A symlink to a secret is as sensitive as the secret itself
+  for (const candidate of getPathCandidates(resolvedPath)) {
+    if (exceptions.some((p) => matchesPathPattern(candidate, p, repoRoot))) continue;
+    const pattern = patterns.find((p) => matchesPathPattern(candidate, p, repoRoot));
+    if (pattern) return { resolvedPath: candidate, pattern, onRead: rules?.onRead ?? "ask" };
+  }
+  return null;
+}
+
+/**
+ * Check a path read by a tool (read, grep) against the sensitive path list
+ */
+export function checkSecretPath(filePath: string, cwd: string, config?: PermissionConfig): SecretPathMatch | null {
+  const effectiveConfig = config ?? getCachedConfig();
+  const resolvedPath = path.resolve(cwd, expandHome(filePath));
+  return matchSecretPath(resolvedPath, effectiveConfig.secretPaths, findRepoRoot(cwd));
+}
+
+/** Files a wildcard argument expands to (only the last path component may contain wildcards) */
+function expandPathGlob(resolvedPath: string): string[] {
+  const dir = path.dirname(resolvedPath);
+  if (/[*?[]/.test(dir)) return [];
+  const regex = pathGlobToRegex(path.basename(resolvedPath));
+  try {
+    return fs.readdirSync(dir).filter((name) => regex.test(name)).map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+/** Quoted string literals inside an argument, e.g. '.env' in print(open('.env').read()) */
+const STRING_LITERAL = /(['"`])([^'"`\n]+?)\1/g;
+
+/** Commands that read every file below a directory argument */
+function isRecursiveRead(tokens: string[]): boolean {
+  const cmd = getCommandName(tokens);
+  const args = tokens.slice(1);
+  const hasShortFlag = (letters: string) => args.some((a) => /^-[a-zA-Z]+$/.test(a) && [...letters].some((l) => a.includes(l)));
+
+  if (["rg", "ag", "ack", "rsync", "tar"].includes(cmd)) return true;
+  if (["grep", "egrep", "fgrep", "zgrep"].includes(cmd)) {
+    return hasShortFlag("rR") || args.some((a) => a === "--recursive" || a === "--dereference-recursive" || a === "--directories=recurse");
+  }
+  if (["cp", "scp"].includes(cmd)) return hasShortFlag("rRa") || args.includes("--recursive") || args.includes("--archive");
+  if (cmd === "zip") return hasShortFlag("r");
+  return false;
+}
+
+/**
+ * Directories the sensitive path globs live in, e.g. the .aws directory of .aws/credentials
+ * or .gnupg for .gnupg/** - file globs that match anywhere (.env, *.pem) have none
+ */
+function getSecretDirectories(patterns: string[]): string[] {
+  const dirs = new Set<string>();
+  for (const pattern of patterns) {
+    const dir = pattern.endsWith("/**") ? pattern.slice(0, -3) : pattern.slice(0, pattern.lastIndexOf("/"));
+    if (dir && dir !== "/**" && !/[*?[]/.test(dir.replace(/^\/\*\*\//, ""))) dirs.add(dir);
+  }
+  return [...dirs];
+}
+
+/**
+ * Sensitive directory a recursive read starting at root would enter:
+ * root is inside one, or one exists below root
+ */
+function findSecretDirectoryRead(
+  root: string,
+  rules: SecretPathRules | undefined,
+  repoRoot: string
+): SecretPathMatch | null {
+  const useDefaults = rules?.defaults !== false;
+  const exceptions = [...(useDefaults ? DEFAULT_SECRET_EXCEPTIONS : []), ...(rules?.allow ?? [])];
+  const patterns = [...(useDefaults ? DEFAULT_SECRET_PATHS : []), ...(rules?.deny ?? [])];
+  const home = process.env.HOME || "";
+  const onRead = rules?.onRead ?? "ask";
+
+  for (const dir of getSecretDirectories(patterns)) {
+    if (matchesPathPattern(root, `${dir}/**`, repoRoot)) {
+      if (!exceptions.some((p) => matchesPathPattern(root, p, repoRoot))) return { resolvedPath: root, pattern: dir, onRead };
+      continue;
+    }
+
+    let candidates: string[];
+    if (dir.startsWith("/**/")) {
+      const tail = dir.slice(4);
+      candidates = [path.join(root, tail)];
+      if (home && isInsideRoots(home, [root])) candidates.push(path.join(home, tail));
+      candidates = candidates.filter((candidate) => fs.existsSync(candidate));
+    } else {
+      candidates = [resolvePathPattern(dir, repoRoot)];
+    }
+    const inside = candidates.find((candidate) => isInsideRoots(candidate, [root]));
+    if (inside && !exceptions.some((p) => matchesPathPattern(inside, p, repoRoot))) {
+      return { resolvedPath: inside, pattern: dir, onRead };
+    }
+  }
+  return null;
+}
+
+/**
+ * Sensitive files among the arguments of a bash command (including input redirections,
+ * --option=value values, wildcards expanded against cwd, string literals in inline code,
+ * and directories read recursively)
+ */
+export function findSecretReads(command: string, cwd: string, config?: PermissionConfig): SecretPathMatch[] {
+  const effectiveConfig = config ?? getCachedConfig();
+  const rules = effectiveConfig.secretPaths;
+  if (rules?.defaults === false && !rules.deny?.length) return [];
+
+  const repoRoot = findRepoRoot(cwd);
+  const matches = new Map<string, SecretPathMatch>();
+  const addMatch = (match: SecretPathMatch | null) => {
+    if (match && !matches.has(match.resolvedPath)) matches.set(match.resolvedPath, match);
+  };
+
+  const parsed = parseCommand(command);
+  parsed.segments.forEach((segment, i) => {
+    const recursive = isRecursiveRead(segment);
+    // Quotes left after shell parsing belong to inline code (python3 -c "open('.env')"), as do heredoc bodies
+    const code = [...segment.slice(1), parsed.heredocs?.[i]?.body ?? ""].filter((text) => /['"`]/.test(text));
+    const literals = code.flatMap((text) => [...text.matchAll(STRING_LITERAL)].map((m) => m[2]));
+
+    for (const token of [...segment.slice(1), ...literals]) {
+      let arg = token;
+      if (arg.startsWith("-")) {
+        if (!arg.includes("=")) continue;
+        arg = arg.slice(arg.indexOf("=") + 1);
+      }
+      if (!arg) continue;
+
+      const resolved = path.resolve(cwd, expandHome(arg.replace(/^@/, "")));
+      const paths = /[*?[]/.test(arg) ? [resolved, ...expandPathGlob(resolved)] : [resolved];
+      for (const candidate of paths) {
+        addMatch(matchSecretPath(candidate, rules, repoRoot));
+        if (recursive) addMatch(findSecretDirectoryRead(candidate, rules, repoRoot));
+      }
+    }
+  });
+
+  return [...matches.values()];
+}
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+
+export type AuditDecision = "allow" | "block";
+
+export interface AuditEntry {
+  timestamp: string;
+  sessionId?: string;
+  /** Tool that triggered the check (bash, write, edit) */
+  tool: string;
+  /** Bash command, or file path for write/edit */
+  command: string;
+  /** Command after prefix mappings (bash only) */
+  normalizedCommand?: string;
+  classification?: Classification;
+  level: PermissionLevel;
+  mode: PermissionMode;
+  decision: AuditDecision;
+  /** Option the user selected when prompted; absent when no prompt was shown */
+  choice?: string;
+  reason?: string;
+  /** What the candidate policy would have done (shadow mode only) */
+  shadow?: ShadowEvaluation;
+}
+
+export interface AuditFilter {
+  /** Maximum number of entries to return (most recent) */
+  limit?: number;
+  decision?: AuditDecision;
+  tool?: string;
+  /** Required level of the classified command */
+  level?: PermissionLevel;
+  sessionId?: string;
+  /** Case-insensitive substring match on the command */
+  text?: string;
+}
+
+/** Only the tail of large audit logs is read when listing entries */
+const AUDIT_READ_MAX_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Audit settings from the global config, or from a locked system policy alone,
+ * so users can't turn auditing off or move the log
+ */
+export function getAuditSettings(
+  config?: PermissionConfig,
+  policy: SystemPolicy | null = loadSystemPolicy()
+): NonNullable<PermissionConfig['audit']> {
+  if (policy?.locked) return policy.config.audit ?? {};
+  return (config ?? loadGlobalPermissionConfig()).audit ?? {};
+}
+
+export function getAuditLogPath(config?: PermissionConfig): string {
+  const configured = getAuditSettings(config).path;
+  if (configured) return expandHome(configured);
+  return path.join(process.env.HOME || "", ".pi", "agent", "permission-audit.jsonl");
+}
+
+/**
+ * Append a decision to the audit log
+ * Failures are swallowed - auditing must never break tool execution
+ */
+export function appendAuditEntry(entry: AuditEntry, config?: PermissionConfig): void {
+  if (getAuditSettings(config).enabled === false) return;
+
+  try {
+    const logPath = getAuditLogPath(config);
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    fs.appendFileSync(logPath, JSON.stringify(entry) + "\n");
+  } catch {}
+}
+
+/**
+ * Read recent audit entries, oldest first, applying the filter
+ */
+export function readAuditLog(filter: AuditFilter = {}, config?: PermissionConfig): AuditEntry[] {
+  const logPath = getAuditLogPath(config);
+
+  let content: string;
+  try {
+    const size = fs.statSync(logPath).size;
+    const start = Math.max(0, size - AUDIT_READ_MAX_BYTES);
+    const fd = fs.openSync(logPath, "r");
+    try {
+      const buffer = Buffer.alloc(size - start);
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+      content = buffer.toString("utf-8");
+    } finally {
+      fs.closeSync(fd);
+    }
+    // Drop the partial first line when reading from the middle of the file
+    if (start > 0) content = content.slice(content.indexOf("\n") + 1);
+  } catch {
+    return [];
+  }
+
+  const text = filter.text?.toLowerCase();
+  const entries: AuditEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (filter.decision && entry.decision !== filter.decision) continue;
+    if (filter.tool && entry.tool !== filter.tool) continue;
+    if (filter.level && entry.classification?.level !== filter.level) continue;
+    if (filter.sessionId && entry.sessionId !== filter.sessionId) continue;
+    if (text && !entry.command.toLowerCase().includes(text)) continue;
+    entries.push(entry);
+  }
+
+  return filter.limit ? entries.slice(-filter.limit) : entries;
+}
+
+// ============================================================================
+// TRASH
+// ============================================================================
+
+export interface TrashEntry {
+  id: string;
+  timestamp: string;
+  /** Absolute path the file was removed from */
+  originalPath: string;
+  /** Where the file was moved to */
+  trashPath: string;
+}
+
+export interface TrashPlan {
+  /** mv command that replaces the rm command */
+  command: string;
+  entries: TrashEntry[];
+}
+
+const TRASH_MANIFEST = "manifest.jsonl";
+
+// Characters that expand or substitute in the shell - commands using them aren't rewritten
+const TRASH_UNSAFE_CHARS = /[$`*?[\]{}~\\\n<>|&;#()]/;
+
+const RM_LONG_FLAGS = new Set(["--recursive", "--force", "--verbose", "--dir"]);
+
+export function getTrashDir(sessionId?: string): string {
+  const name = (sessionId || "default").replace(/[^\w.-]/g, "_");
+  return path.join(process.env.HOME || "", ".pi", "agent", "permission-trash", name);
+}
+
+export function isTrashEnabled(config?: PermissionConfig): boolean {
+  return (config ?? getCachedConfig()).trash?.enabled === true;
+}
+
+/**
+ * Resolve the targets of an rm command that can be replaced by moving them to the trash
+ * Returns null unless the command is a single rm with plain arguments and known flags, every target
+ * exists (missing ones are skipped with -f), and no target is /, the home directory or contains the cwd
+ */
+export function parseTrashableRm(command: string, cwd: string): string[] | null {
+  if (TRASH_UNSAFE_CHARS.test(command)) return null;
+  const tokens = parseSimpleCommand(command.trim());
+  if (!tokens || tokens[0] !== "rm") return null;
+
+  let recursive = false;
+  let force = false;
+  let dirFlag = false;
+  const args: string[] = [];
+  let endOfOptions = false;
+  for (const arg of tokens.slice(1)) {
+    if (endOfOptions || !arg.startsWith("-") || arg === "-") {
+      args.push(arg);
+    } else if (arg === "--") {
+      endOfOptions = true;
+    } else if (RM_LONG_FLAGS.has(arg) || /^-[rRfvd]+$/.test(arg)) {
+      recursive ||= arg === "--recursive" || /^-[^-]*[rR]/.test(arg);
+      force ||= arg === "--force" || /^-[^-]*f/.test(arg);
+      dirFlag ||= arg === "--dir" || /^-[^-]*d/.test(arg);
+    } else {
+      return null;
+    }
+  }
+  if (args.length === 0) return null;
+
+  const home = process.env.HOME ? path.resolve(process.env.HOME) : undefined;
+  const resolvedCwd = path.resolve(cwd);
+  const targets: string[] = [];
+  for (const arg of args) {
+    const resolved = path.resolve(resolvedCwd, arg);
+    if (resolved === path.parse(resolved).root || resolved === home) return null;
+    if (resolvedCwd === resolved || resolvedCwd.startsWith(resolved + path.sep)) return null;
+
+    let stat: fs.Stats;
+    try {
+      stat = fs.lstatSync(resolved);
+    } catch {
+      if (force) continue;
+      return null;
+    }
+    // rm refuses directories without -r (or -d for empty ones), so the rewrite must too
+    if (stat.isDirectory() && !recursive && !(dirFlag && fs.readdirSync(resolved).length === 0)) return null;
+    if (!targets.includes(resolved)) targets.push(resolved);
+  }
+
+  return targets.length > 0 ? targets : null;
+}
+
+/**
+ * Targets of an rm the trash will take, when trash mode is on and every target is inside the project
+ * Such an rm is classified at Medium: it can be undone with /permission trash restore
+ */
+function getTrashedProjectFiles(command: string, cwd: string, config: PermissionConfig): string[] | null {
+  if (!isTrashEnabled(config)) return null;
+  const targets = parseTrashableRm(command, cwd);
+  if (!targets) return null;
+  const roots = getAllowedRoots(cwd, config);
+  return targets.every((target) => isInsideRoots(target, roots)) ? targets : null;
+}
+
+/**
+ * Prepare the trash for the given targets and return the mv command that moves them there
+ * Entries are recorded up front; listing skips entries whose file never arrived
+ */
+export function planTrashMove(targets: string[], sessionId?: string): TrashPlan {
+  const trashDir = getTrashDir(sessionId);
+  const stamp = Date.now().toString(36);
+  const entries = targets.map((originalPath, i) => {
+    const id = `${stamp}-${i}`;
+    const slot = path.join(trashDir, id);
+    fs.mkdirSync(slot, { recursive: true });
+    return {
+      id,
+      timestamp: new Date().toISOString(),
+      originalPath,
+      trashPath: path.join(slot, path.basename(originalPath)),
+    };
+  });
+
+  fs.appendFileSync(
+    path.join(trashDir, TRASH_MANIFEST),
+    entries.map((entry) => JSON.stringify(entry) + "\n").join("")
+  );
+
+  const command = entries.map((entry) => `mv -- ${quote([entry.originalPath, entry.trashPath])}`).join(" && ");
+  return { command, entries };
+}
+
+/**
+ * Entries still in the session's trash, newest first
+ */
+export function listTrashEntries(sessionId?: string): TrashEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(path.join(getTrashDir(sessionId), TRASH_MANIFEST), "utf-8");
+  } catch {
+    return [];
+  }
+
+  const entries: TrashEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as TrashEntry;
+      if (fs.existsSync(entry.trashPath)) entries.push(entry);
+    } catch {}
+  }
+  return entries.reverse();
+}
+
+/**
+ * Move a trashed file back to where it was removed from
+ * Throws if the original path has been taken again
+ */
+export function restoreTrashEntry(entry: TrashEntry): void {
+  if (fs.existsSync(entry.originalPath)) {
+    throw new Error(`${entry.originalPath} already exists`);
+  }
+  fs.mkdirSync(path.dirname(entry.originalPath), { recursive: true });
+  try {
+    fs.renameSync(entry.trashPath, entry.originalPath);
+  } catch (error) {
+    // The trash can live on another filesystem than the project
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    fs.cpSync(entry.trashPath, entry.originalPath, { recursive: true, verbatimSymlinks: true });
+    fs.rmSync(entry.trashPath, { recursive: true, force: true });
+  }
+  fs.rmSync(path.dirname(entry.trashPath), { recursive: true, force: true });
+}
+
+// ============================================================================
+// COMMAND LIMITS
+// ============================================================================
+
+/**
+ * Limits for a command requiring the given level, or null when none are configured
+ */
+export function getCommandLimits(level: PermissionLevel, config?: PermissionConfig): CommandLimits | null {
+  const limits = (config ?? getCachedConfig()).limits;
+  const key = level === 'bypassed' ? 'high' : level;
+  const merged: CommandLimits = { ...limits?.default, ...limits?.[key] };
+  return Object.keys(merged).length > 0 ? merged : null;
+}
+
+/**
+ * Wrap a bash command so it runs under the given ulimits and output cap
+ * The command runs unchanged in a subshell; the wall time limit is the bash tool's own timeout
+ */
+export function applyCommandLimits(command: string, limits: CommandLimits): string {
+  const ulimits: string[] = [];
+  if (limits.cpuSeconds) ulimits.push(`ulimit -t ${limits.cpuSeconds}`);
+  if (limits.memoryMB) ulimits.push(`ulimit -v ${limits.memoryMB * 1024}`);
+  if (limits.maxProcesses) ulimits.push(`ulimit -u ${limits.maxProcesses}`);
+  if (ulimits.length === 0 && !limits.maxOutputBytes) return command;
+
+  // The newline before ")" ends a trailing comment or heredoc in the command
+  const subshell = `(${ulimits.length > 0 ? `${ulimits.join(" && ")} && ` : ""}\n${command}\n)`;
+  if (!limits.maxOutputBytes) return subshell;
+  return `set -o pipefail; ${subshell} 2>&1 | head -c ${limits.maxOutputBytes}`;
+}
+
+// ============================================================================
+// SHADOW MODE
+// ============================================================================
+
+/** What a permission check would have done: run, ask the user, or refuse */
+export type ShadowOutcome = "allow" | "prompt" | "block";
+
+export interface ShadowEvaluation {
+  /** Level the candidate policy requires */
+  level: PermissionLevel;
+  dangerous: boolean;
+  outcome: ShadowOutcome;
+  /** Why the call would not have run freely */
+  reason?: string;
+}
+
+/**
+ * Config the shadow evaluation runs against: the candidate policy layered on the active config,
+ * or the active config itself when no candidate is set
+ */
+export function getShadowConfig(config?: PermissionConfig): PermissionConfig {
+  const effectiveConfig = config ?? getCachedConfig();
+  if (!effectiveConfig.shadow) return effectiveConfig;
+  return mergePermissionConfigs(effectiveConfig, effectiveConfig.shadow);
+}
+
+function evaluateRequiredLevel(
+  required: PermissionLevel,
+  level: PermissionLevel
+): ShadowEvaluation {
+  if (LEVEL_INDEX[required] <= LEVEL_INDEX[level]) {
+    return { level: required, dangerous: false, outcome: "allow" };
+  }
+  return { level: required, dangerous: false, outcome: "prompt", reason: `requires ${LEVEL_INFO[required].label}` };
+}
+
+/**
+ * Evaluate a bash command the way the enforcing modes would, under the candidate policy
+ */
+export function evaluateShadowCommand(
+  command: string,
+  level: PermissionLevel,
+  config?: PermissionConfig,
+  cwd?: string
+): ShadowEvaluation {
+  const candidate = getShadowConfig(config);
+  const classification = classifyCommand(command, candidate, cwd);
+  const { level: required, dangerous } = classification;
+
+  if (level === "bypassed") return { level: required, dangerous, outcome: "allow" };
+  if (dangerous) return { level: required, dangerous, outcome: "prompt", reason: "dangerous command" };
+
+  const confirmable = getConfirmableCapabilities(classification, candidate);
+  if (confirmable.length > 0) {
+    const labels = confirmable.map((c) => CAPABILITY_INFO[c].label).join(", ");
+    return { level: required, dangerous, outcome: "prompt", reason: `requires confirmation (${labels})` };
+  }
+
+  return evaluateRequiredLevel(required, level);
+}
+
+/**
+ * Evaluate a write/edit under the candidate policy's path rules and level
+ */
+export function evaluateShadowWrite(
+  filePath: string,
+  cwd: string,
+  level: PermissionLevel,
+  config?: PermissionConfig
+): ShadowEvaluation {
+  if (level === "bypassed") return { level: "low", dangerous: false, outcome: "allow" };
+
+  const pathCheck = checkWritePath(filePath, cwd, getShadowConfig(config));
+  if (pathCheck.denied) {
+    return {
+      level: "low",
+      dangerous: false,
+      outcome: pathCheck.onDeny === "block" ? "block" : "prompt",
+      reason: `protected path (${pathCheck.reason})`,
+    };
+  }
+
+  return evaluateRequiredLevel("low", level);
+}
+
+/**
+ * Evaluate another tool call under the candidate policy's tool rules
+ */
+export function evaluateShadowTool(
+  toolName: string,
+  input: Record<string, unknown>,
+  level: PermissionLevel,
+  config?: PermissionConfig
+): ShadowEvaluation {
+  const required = classifyToolCall(toolName, input, getShadowConfig(config)).level;
+  if (level === "bypassed") return { level: required, dangerous: false, outcome: "allow" };
+  return evaluateRequiredLevel(required, level);
+}
+
+// ============================================================================
+// TEMPORARY ELEVATION
+// ============================================================================
+
+/** Longest allowed temporary elevation */
+export const MAX_ELEVATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a duration such as "15m", "1h", "90s" or "1h30m" into milliseconds
+ * Returns null for malformed, zero or too long durations
+ */
+export function parseDuration(text: string): number | null {
+  const match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/i.exec(text.trim());
+  if (!match || !(match[1] || match[2] || match[3])) return null;
+
+  const [hours, minutes, seconds] = [match[1], match[2], match[3]].map((v) => Number(v ?? 0));
+  const ms = ((hours * 60 + minutes) * 60 + seconds) * 1000;
+  if (ms <= 0 || ms > MAX_ELEVATION_MS) return null;
+  return ms;
+}
+
+/**
+ * Format remaining time for display, e.g. "1h 5m", "14m", "45s" (rounded up)
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  if (totalSeconds < 60) return `${totalSeconds}s`;
+
+  const totalMinutes = Math.ceil(totalSeconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
+
+// ============================================================================
+// HEADLESS APPROVALS
+// ============================================================================
+
+/** Sent to the approval channel when a non-interactive session needs a decision */
+export interface ApprovalRequest {
+  id: string;
+  timestamp: string;
+  sessionId?: string;
+  cwd: string;
+  /** Tool that triggered the check (bash, write, edit, ...) */
+  tool: string;
+  /** Bash command, file path, or summarized tool input */
+  command: string;
+  /** Current level of the requesting session */
+  level: PermissionLevel;
+  /** Level the operation needs; absent for confirmations (dangerous, protected path, capabilities) */
+  requiredLevel?: PermissionLevel;
+  /** Why approval is needed */
+  reason: string;
+}
+
+export interface ApprovalResponse {
+  approved: boolean;
+  reason?: string;
+}
+
+export type ApprovalEndpoint =
+  | { kind: "file"; dir: string }
+  | { kind: "http"; host: string; port: number; path: string }
+  | { kind: "unix"; socketPath: string; path: string };
+
+export interface ApprovalChannel {
+  url: string;
+  endpoint: ApprovalEndpoint;
+  timeoutMs: number;
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 60;
+const MAX_APPROVAL_TIMEOUT_SECONDS = 60 * 60;
+
+/** How often the file channel checks for a response */
+const APPROVAL_POLL_MS = 200;
+
+/** Larger HTTP responses are rejected (and therefore denied) */
+const MAX_APPROVAL_RESPONSE_BYTES = 64 * 1024;
+
+/** HTTP channels must stay on this machine - a remote approver would see every command */
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1"]);
+
+/**
+ * Parse an approval channel URL
+ * - file:/dir - request/response JSON files in a directory
+ * - http://127.0.0.1:port/path - POST to a loopback HTTP endpoint
+ * - unix:/path/to.sock - POST /approve over a Unix socket
+ * Returns null for unsupported or non-local URLs
+ */
+export function parseApprovalUrl(url: string): ApprovalEndpoint | null {
+  const trimmed = url.trim();
+
+  if (trimmed.startsWith("unix:")) {
+    const socketPath = expandHome(trimmed.slice("unix:".length));
+    return path.isAbsolute(socketPath) ? { kind: "unix", socketPath, path: "/approve" } : null;
+  }
+
+  if (trimmed.startsWith("file:")) {
+    let dir: string;
+    try {
+      dir = trimmed.startsWith("file://") ? fileURLToPath(trimmed) : expandHome(trimmed.slice("file:".length));
+    } catch {
+      return null;
+    }
+    return path.isAbsolute(dir) ? { kind: "file", dir } : null;
+  }
+
+  if (trimmed.startsWith("http://")) {
+    let parsed: URL;
+    try {
+      parsed = new URL(trimmed);
+    } catch {
+      return null;
+    }
+    const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+    if (!LOOPBACK_HOSTS.has(host)) return null;
+    return { kind: "http", host, port: Number(parsed.port || 80), path: parsed.pathname + parsed.search };
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the approval channel for non-interactive sessions
+ * PI_PERMISSION_APPROVAL_URL / PI_PERMISSION_APPROVAL_TIMEOUT (seconds) take precedence over the global config
+ */
+export function getApprovalChannel(config?: PermissionConfig): ApprovalChannel | null {
+  const settings = (config ?? loadGlobalPermissionConfig()).approvals ?? {};
+  const url = process.env.PI_PERMISSION_APPROVAL_URL || settings.url;
+  if (!url) return null;
+
+  const endpoint = parseApprovalUrl(url);
+  if (!endpoint) return null;
+
+  const envTimeout = Number(process.env.PI_PERMISSION_APPROVAL_TIMEOUT);
+  const timeoutSeconds =
+    envTimeout > 0 && envTimeout <= MAX_APPROVAL_TIMEOUT_SECONDS
+      ? envTimeout
+      : settings.timeoutSeconds ?? DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+
+  return { url, endpoint, timeoutMs: timeoutSeconds * 1000 };
+}
+
+/**
+ * Normalize an approver's answer - anything but `approved: true` is a denial
+ */
+export function parseApprovalResponse(value: unknown): ApprovalResponse {
+  if (!value || typeof value !== "object") return { approved: false, reason: "Invalid approval response" };
+  const raw = value as Record<string, unknown>;
+  const response: ApprovalResponse = { approved: raw.approved === true };
+  if (typeof raw.reason === "string" && raw.reason) response.reason = raw.reason;
+  return response;
+}
+
+function timeoutDenial(timeoutMs: number): ApprovalResponse {
+  return { approved: false, reason: `No approval within ${formatDuration(timeoutMs)}` };
+}
+
+/**
+ * Ask the approval channel for a decision
+ * Never throws - errors, timeouts and malformed answers all deny
+ */
+export async function requestApproval(request: ApprovalRequest, channel: ApprovalChannel): Promise<ApprovalResponse> {
+  const { endpoint, timeoutMs } = channel;
+  try {
+    if (endpoint.kind === "file") {
+      return await requestFileApproval(request, endpoint.dir, timeoutMs);
+    }
+    const target: http.RequestOptions =
+      endpoint.kind === "unix"
+        ? { socketPath: endpoint.socketPath, path: endpoint.path }
+        : { host: endpoint.host, port: endpoint.port, path: endpoint.path };
+    return await postApprovalRequest(request, target, timeoutMs);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { approved: false, reason: `Approval channel error: ${message}` };
+  }
+}
+
+/**
+ * File channel: write <id>.request.json and wait for the approver to create <id>.response.json
+ * Both files are removed once the request is settled
+ */
+async function requestFileApproval(request: ApprovalRequest, dir: string, timeoutMs: number): Promise<ApprovalResponse> {
+  fs.mkdirSync(dir, { recursive: true });
+  const requestPath = path.join(dir, `${request.id}.request.json`);
+  const responsePath = path.join(dir, `${request.id}.response.json`);
+
+  // Write then rename so watchers never see a partial request
+  const tmpPath = `${requestPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(request, null, 2) + "\n");
+  fs.renameSync(tmpPath, requestPath);
+
+  const deadline = Date.now() + timeoutMs;
+  try {
+    while (true) {
+      try {
+        return parseApprovalResponse(JSON.parse(fs.readFileSync(responsePath, "utf-8")));
+      } catch {
+        // Missing or still being written - keep polling
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return timeoutDenial(timeoutMs);
+      await new Promise((resolve) => setTimeout(resolve, Math.min(APPROVAL_POLL_MS, remaining)));
+    }
+  } finally {
+    fs.rmSync(requestPath, { force: true });
+    fs.rmSync(responsePath, { force: true });
+  }
+}
+
+/**
+ * HTTP and Unix socket channels: POST the request as JSON, expect a 200 with an ApprovalResponse body
+ */
+function postApprovalRequest(
+  request: ApprovalRequest,
+  target: http.RequestOptions,
+  timeoutMs: number
+): Promise<ApprovalResponse> {
+  return new Promise((resolve, reject) => {
+    const body = JSON.stringify(request);
+    const req = http.request(
+      {
+        ...target,
+        method: "POST",
+        headers: { "content-type": "application/json", "content-length": Buffer.byteLength(body) },
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_APPROVAL_RESPONSE_BYTES) {
+            req.destroy(new Error("response too large"));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("end", () => {
+          if (res.statusCode !== 200) {
+            reject(new Error(`HTTP ${res.statusCode}`));
+            return;
+          }
+          try {
+            resolve(parseApprovalResponse(JSON.parse(Buffer.concat(chunks).toString("utf-8"))));
+          } catch {
+            reject(new Error("response is not JSON"));
+          }
+        });
+      }
+    );
+
+    const timer = setTimeout(() => {
+      resolve(timeoutDenial(timeoutMs));
+      req.destroy();
+    }, timeoutMs);
+    req.on("close", () => clearTimeout(timer));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// ============================================================================
+// POLICY TESTS
+// ============================================================================
+
+/** Expected outcome of a corpus command: a level, or "dangerous" for always-prompt commands */
+export type PolicyExpectation = Exclude<PermissionLevel, "bypassed"> | "dangerous";
+
+export interface PolicyTestCase {
+  command: string;
+  expected: PolicyExpectation;
+  /** 1-based line in the corpus file */
+  line?: number;
+}
+
+export interface PolicyTestResult extends PolicyTestCase {
+  classification: Classification;
+  passed: boolean;
+}
+
+const POLICY_EXPECTATIONS: PolicyExpectation[] = ["minimal", "low", "medium", "high", "dangerous"];
+
+/**
+ * Parse a policy corpus: one "<expected> <command>" per line, e.g. "medium npm install"
+ * Blank lines and lines starting with # are ignored
+ */
+export function parsePolicyCorpus(text: string): { cases: PolicyTestCase[]; errors: string[] } {
+  const cases: PolicyTestCase[] = [];
+  const errors: string[] = [];
+
+  text.split("\n").forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const match = /^(\S+)\s+(.+)$/.exec(line);
+    const expected = match?.[1].toLowerCase() as PolicyExpectation | undefined;
+    if (!match || !expected || !POLICY_EXPECTATIONS.includes(expected)) {
+      errors.push(`line ${i + 1}: expected "<${POLICY_EXPECTATIONS.join("|")}> <command>"`);
+      return;
+    }
+    cases.push({ command: match[2], expected, line: i + 1 });
+  });
+
+  return { cases, errors };
+}
+
+/**
+ * Classify every corpus command under the config and compare with its expectation
+ * A level expectation only passes for commands that aren't also dangerous
+ */
+export function runPolicyTests(cases: PolicyTestCase[], config?: PermissionConfig, cwd?: string): PolicyTestResult[] {
+  const effectiveConfig = config ?? getCachedConfig();
+  return cases.map((testCase) => {
+    const classification = classifyCommand(testCase.command, effectiveConfig, cwd);
+    const passed =
+      testCase.expected === "dangerous"
+        ? classification.dangerous
+        : !classification.dangerous && classification.level === testCase.expected;
+    return { ...testCase, classification, passed };
+  });
+}
+
+/** Expectation that matches a classification, as written in a corpus */
+export function getPolicyExpectation(classification: Classification): PolicyExpectation {
+  // Commands are never classified as bypassed
+  return classification.dangerous ? "dangerous" : (classification.level as PolicyExpectation);
+}
+
+/**
+ * Build a corpus recording how the config classifies commands today (duplicates and multi-line commands skipped)
+ * Saved corpora catch later changes to the built-in sets or overrides
+ */
+export function formatPolicyCorpus(commands: string[], config?: PermissionConfig, cwd?: string): string {
+  const effectiveConfig = config ?? getCachedConfig();
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const command of commands) {
+    const trimmed = command.trim();
+    if (!trimmed || trimmed.includes("\n") || seen.has(trimmed)) continue;
+    seen.add(trimmed);
+    const expected = getPolicyExpectation(classifyCommand(trimmed, effectiveConfig, cwd));
+    lines.push(`${expected.padEnd(9)} ${trimmed}`);
+  }
+  return lines.length > 0 ? lines.join("\n") + "\n" : "";
 }
@@ -6,12 +6,26 @@
  * Interactive mode:
  *   Use `/permission` command to view or change the level.
  *   Use `/permission-mode` to switch between ask vs block.
+ *   Use `/permission log` to review recent permission decisions.
+ *   Use `/permission explain <command>` to see why a command needs its level.
+ *   Use `/permission test <file>` to check a corpus of commands against the active config.
+ *   Use `/permission-mode shadow` to try a candidate policy, `/permission shadow` for its report.
+ *   Use `/permission trash` to list files removed into the trash and restore them.
  *   When changing via command, you'll be asked: session-only or global?
+ *   Use `/permission medium --session` or `--global` to skip the question.
+ *   Use `/permission medium --for 15m` to raise the level temporarily.
+ *   Session levels are stored in the session and restored on switch/fork.
  *
  * Print mode (pi -p):
  *   Set PI_PERMISSION_LEVEL env var: PI_PERMISSION_LEVEL=medium pi -p "task"
  *   Operations beyond level will exit with helpful error message.
  *   Use PI_PERMISSION_LEVEL=bypassed for CI/containers (dangerous!)
+ *   Set PI_PERMISSION_PROFILE to apply a named profile (level, mode and rules).
+ *   Set PI_PERMISSION_APPROVAL_URL to ask an approval channel instead of blocking.
+ *
+ * System policy:
+ *   /etc/pi/permission-policy.json applies to every user; when locked it caps the level
+ *   (including PI_PERMISSION_LEVEL), forbids bypassed and shadow mode, and pins the rules.
  *
  * Levels:
  *   minimal - Read-only mode (default)
@@ -37,7 +51,9 @@
  */
 
 import { exec } from "node:child_process";
+import crypto from "node:crypto";
 import fs from "node:fs";
+import http from "node:http";
 import os from "node:os";
 import path from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
@@ -48,6 +64,7 @@ import {
   LEVEL_INDEX,
   LEVEL_INFO,
   LEVEL_ALLOWED_DESC,
+  CAPABILITY_INFO,
   PERMISSION_MODES,
   PERMISSION_MODE_INFO,
   loadGlobalPermission,
@@ -55,10 +72,59 @@ import {
   loadGlobalPermissionMode,
   saveGlobalPermissionMode,
   classifyCommand,
+  classifyToolCall,
+  explainCommand,
+  formatPolicyCorpus,
+  getPolicyExpectation,
+  parsePolicyCorpus,
+  runPolicyTests,
+  evaluateShadowCommand,
+  evaluateShadowTool,
+  evaluateShadowWrite,
+  getConfirmableCapabilities,
+  normalizeCommand,
+  parseDuration,
+  formatDuration,
+  suggestCommandPattern,
+  suggestRewrite,
+  formatRewriteSuggestion,
+  matchesCommandPattern,
+  addGlobalOverride,
+  checkWritePath,
+  isTrashEnabled,
+  getCommandLimits,
+  applyCommandLimits,
+  parseTrashableRm,
+  planTrashMove,
+  listTrashEntries,
+  restoreTrashEntry,
+  checkSecretPath,
+  findSecretReads,
+  getApprovalChannel,
+  requestApproval,
+  appendAuditEntry,
+  readAuditLog,
+  loadActiveProfile,
+  loadSystemPolicy,
+  capPermissionLevel,
+  loadGlobalPermissionConfig,
   loadPermissionConfig,
+  loadProjectConfig,
+  trustProjectConfig,
   savePermissionConfig,
   invalidateConfigCache,
+  type ApprovalRequest,
+  type ApprovalResponse,
+  type AuditEntry,
+  type AuditFilter,
+  type Classification,
+  type ConfigLayer,
   type PermissionConfig,
+  type SecretPathMatch,
+  type ShadowEvaluation,
+  type SystemPolicy,
+  type TrashPlan,
+  type WritePathCheck,
 } from "./permission-core.js";
 
 // Re-export types and constants needed by the hook
@@ -107,10 +173,20 @@ const LEVEL_COLORS: Record<PermissionLevel, string> = {
   bypassed: DIM,
 };
 
-function getStatusText(level: PermissionLevel): string {
+function getStatusText(level: PermissionLevel, scope?: string): string {
   const info = LEVEL_INFO[level];
   const color = LEVEL_COLORS[level];
-  return `${BOLD}${color}${info.label}${RESET} ${DIM}- ${info.desc}${RESET}`;
+  const scopeText = scope ? ` (${scope})` : "";
+  return `${BOLD}${color}${info.label}${RESET} ${DIM}- ${info.desc}${scopeText}${RESET}`;
+}
+
+function updateStatus(state: PermissionState, ctx: any): void {
+  if (ctx.ui?.setStatus) {
+    const scope = state.elevation
+      ? `temporary, ${formatDuration(state.elevation.expiresAt - Date.now())} left`
+      : getLevelScope(state);
+    ctx.ui.setStatus("authority", getStatusText(state.currentLevel, scope));
+  }
 }
 
 // ============================================================================
@@ -167,11 +243,69 @@ function isQuietStartupFromSettings(): boolean {
 // STATE MANAGEMENT
 // ============================================================================
 
+/** Where the current level came from */
+type LevelScope = "session" | "global" | "env" | "profile" | "policy" | "temporary";
+
+/** How often the status countdown of a temporary level is refreshed */
+const ELEVATION_TICK_MS = 10_000;
+
+/** Duration of the "Allow all for 15 minutes" prompt choice */
+const PROMPT_ELEVATION_MS = 15 * 60 * 1000;
+
+/** Temporary level that reverts to the branch's level when it expires */
+interface Elevation {
+  level: PermissionLevel;
+  expiresAt: number;
+  /** Reverts the level at expiry */
+  timer: ReturnType<typeof setTimeout>;
+  /** Refreshes the countdown in the status bar */
+  ticker: ReturnType<typeof setInterval>;
+}
+
+/** Custom session entry recording the level scope for the current branch */
+const PERMISSION_LEVEL_ENTRY = "permission-level";
+
+/** Event carrying { url } of the approval server; ralph-loop passes it to the agents it spawns */
+export const APPROVAL_URL_EVENT = "permission:approval-url";
+
+interface PermissionLevelEntry {
+  scope: "session" | "global";
+  level?: PermissionLevel;
+}
+
 export interface PermissionState {
   currentLevel: PermissionLevel;
   isSessionOnly: boolean;
+  /** Level was set via PI_PERMISSION_LEVEL */
+  isEnvLevel?: boolean;
+  /** Level comes from the PI_PERMISSION_PROFILE profile */
+  isProfileLevel?: boolean;
+  /** Level of the active profile (Minimal when the profile doesn't exist) */
+  profileLevel?: PermissionLevel;
+  /** Level was lowered to the maximum of the locked system policy */
+  isPolicyLevel?: boolean;
+  /** Persists a level entry to the session (set by the extension entry point) */
+  appendLevelEntry?: (entry: PermissionLevelEntry) => void;
   permissionMode: PermissionMode;
   isModeSessionOnly: boolean;
+  /** Normalized commands approved for the rest of the session */
+  allowedCommands: Set<string>;
+  /** Prefix patterns approved for the rest of the session */
+  allowedPatterns: string[];
+  /** Active temporary level (/permission medium --for 15m) */
+  elevation?: Elevation;
+  /** Socket answering approval requests from subagents (approvals.serve) */
+  approvalServer?: ApprovalServer;
+  /** Tells extensions that spawn subagents the approval URL, or that it's gone (set by the extension entry point) */
+  publishApprovalUrl?: (url: string | undefined) => void;
+  /** Tool calls evaluated in shadow mode during this session */
+  shadowRecords: ShadowRecord[];
+}
+
+/** A tool call allowed in shadow mode, with what the candidate policy would have done */
+interface ShadowRecord extends ShadowEvaluation {
+  tool: string;
+  command: string;
 }
 
 export function createInitialState(): PermissionState {
@@ -180,22 +314,154 @@ export function createInitialState(): PermissionState {
     isSessionOnly: false,
     permissionMode: "ask",
     isModeSessionOnly: false,
+    allowedCommands: new Set(),
+    allowedPatterns: [],
+    shadowRecords: [],
   };
 }
 
+function isAllowedForSession(state: PermissionState, command: string): boolean {
+  if (state.allowedCommands.has(normalizeCommand(command).trim())) return true;
+  return state.allowedPatterns.some((pattern) => matchesCommandPattern(command, pattern));
+}
+
+function getLevelScope(state: PermissionState): LevelScope {
+  if (state.elevation) return "temporary";
+  if (state.isPolicyLevel) return "policy";
+  if (state.isEnvLevel) return "env";
+  if (state.isProfileLevel) return "profile";
+  return state.isSessionOnly ? "session" : "global";
+}
+
 function setLevel(
   state: PermissionState,
   level: PermissionLevel,
   saveGlobally: boolean,
   ctx: any
 ): void {
+  // An explicit level replaces any temporary one
+  clearElevation(state);
   state.currentLevel = level;
   state.isSessionOnly = !saveGlobally;
+  state.isEnvLevel = false;
+  state.isProfileLevel = false;
+  state.isPolicyLevel = false;
   if (saveGlobally) {
     saveGlobalPermission(level);
+    // Record that this branch follows the global level again
+    state.appendLevelEntry?.({ scope: "global" });
+  } else {
+    state.appendLevelEntry?.({ scope: "session", level });
   }
-  if (ctx.ui?.setStatus) {
-    ctx.ui.setStatus("authority", getStatusText(level));
+  updateStatus(state, ctx);
+}
+
+function getLastLevelEntry(ctx: any): PermissionLevelEntry | undefined {
+  const branchEntries: any[] = ctx.sessionManager?.getBranch?.() ?? [];
+  let latest: PermissionLevelEntry | undefined;
+
+  for (const entry of branchEntries) {
+    if (entry.type === "custom" && entry.customType === PERMISSION_LEVEL_ENTRY) {
+      latest = entry.data as PermissionLevelEntry | undefined;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Restore the level for the current branch
+ * Precedence: PI_PERMISSION_LEVEL, then the profile's level, then a session entry on the branch, then the global setting.
+ * An active temporary level stays in effect on top of it, and a locked system policy caps the result.
+ */
+export function restoreLevel(
+  state: PermissionState,
+  ctx: any,
+  policy: SystemPolicy | null = loadSystemPolicy()
+): void {
+  restoreBaseLevel(state, ctx);
+  if (state.elevation && LEVEL_INDEX[state.elevation.level] > LEVEL_INDEX[state.currentLevel]) {
+    state.currentLevel = state.elevation.level;
+  }
+  const capped = capPermissionLevel(state.currentLevel, policy);
+  state.isPolicyLevel = capped !== state.currentLevel;
+  state.currentLevel = capped;
+}
+
+/** Level the session is at without its temporary level - what the temporary level falls back to */
+function getBaseLevel(state: PermissionState, ctx: any): PermissionLevel {
+  const base = { ...state };
+  restoreBaseLevel(base, ctx);
+  return capPermissionLevel(base.currentLevel, loadSystemPolicy());
+}
+
+function restoreBaseLevel(state: PermissionState, ctx: any): void {
+  const envLevel = process.env.PI_PERMISSION_LEVEL?.toLowerCase();
+  if (envLevel && LEVELS.includes(envLevel as PermissionLevel)) {
+    state.currentLevel = envLevel as PermissionLevel;
+    state.isSessionOnly = false;
+    state.isEnvLevel = true;
+    state.isProfileLevel = false;
+    return;
+  }
+
+  state.isEnvLevel = false;
+  if (state.profileLevel) {
+    state.currentLevel = state.profileLevel;
+    state.isSessionOnly = false;
+    state.isProfileLevel = true;
+    return;
+  }
+
+  state.isProfileLevel = false;
+  const entry = getLastLevelEntry(ctx);
+  if (entry?.scope === "session" && entry.level && LEVELS.includes(entry.level)) {
+    state.currentLevel = entry.level;
+    state.isSessionOnly = true;
+    return;
+  }
+
+  state.currentLevel = loadGlobalPermission() ?? "minimal";
+  state.isSessionOnly = false;
+}
+
+/** Raise the level until the duration expires, then fall back to the branch's level */
+function elevateLevel(state: PermissionState, level: PermissionLevel, durationMs: number, ctx: any): void {
+  clearElevation(state);
+  const timer = setTimeout(() => expireElevation(state, ctx), durationMs);
+  const ticker = setInterval(() => updateStatus(state, ctx), ELEVATION_TICK_MS);
+  // Don't keep the process alive for a countdown
+  timer.unref?.();
+  ticker.unref?.();
+  state.elevation = { level, expiresAt: Date.now() + durationMs, timer, ticker };
+  state.currentLevel = level;
+  updateStatus(state, ctx);
+}
+
+function clearElevation(state: PermissionState): void {
+  if (!state.elevation) return;
+  clearTimeout(state.elevation.timer);
+  clearInterval(state.elevation.ticker);
+  state.elevation = undefined;
+}
+
+/** End a temporary level and notify that the level dropped back */
+function expireElevation(state: PermissionState, ctx: any): void {
+  if (!state.elevation) return;
+  const elevated = state.elevation.level;
+  clearElevation(state);
+  restoreLevel(state, ctx);
+  updateStatus(state, ctx);
+  ctx.ui?.notify?.(
+    `Temporary ${LEVEL_INFO[elevated].label} expired - permission back to ${LEVEL_INFO[state.currentLevel].label}`,
+    "info"
+  );
+}
+
+/** Expire a temporary level whose timer hasn't fired yet (e.g. after the machine slept) */
+export function checkElevationExpiry(state: PermissionState, ctx: any): void {
+  if (state.elevation && Date.now() >= state.elevation.expiresAt) {
+    expireElevation(state, ctx);
   }
 }
 
@@ -212,6 +478,65 @@ function setMode(
   }
 }
 
+/** Why the locked system policy doesn't allow a level, or undefined if it does */
+function getPolicyLevelViolation(level: PermissionLevel, policy: SystemPolicy | null): string | undefined {
+  if (!policy || capPermissionLevel(level, policy) === level) return undefined;
+  return `${LEVEL_INFO[level].label} is not allowed by the system policy (max: ${LEVEL_INFO[policy.maxLevel].label}, ${policy.path})`;
+}
+
+/** Why the locked system policy doesn't allow a mode, or undefined if it does */
+function getPolicyModeViolation(mode: PermissionMode, policy: SystemPolicy | null): string | undefined {
+  // Shadow mode allows every call, like bypassed
+  if (mode !== "shadow" || !policy?.locked) return undefined;
+  return `${PERMISSION_MODE_INFO[mode].label} mode is not allowed by the system policy (${policy.path})`;
+}
+
+/** Block calls that need more than the locked system policy allows - no prompt can approve them */
+function checkPolicyMaxLevel(
+  policy: SystemPolicy | null,
+  requiredLevel: PermissionLevel,
+  summary: string
+): ToolCallResult {
+  if (!policy || capPermissionLevel(requiredLevel, policy) === requiredLevel) return undefined;
+  return {
+    block: true,
+    reason: `Blocked by system policy (max: ${LEVEL_INFO[policy.maxLevel].label}). ${summary}
+Requires ${LEVEL_INFO[requiredLevel].label}, which ${policy.path} doesn't allow. Ask an administrator to change the policy.`
+  };
+}
+
+// ============================================================================
+// CONFIG DISPLAY
+// ============================================================================
+
+/** Flatten a config object into "key.path: value" rule lines */
+function flattenConfig(value: unknown, keyPath: string, out: string[]): void {
+  if (Array.isArray(value)) {
+    for (const item of value) out.push(`${keyPath}: ${JSON.stringify(item)}`);
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, keyPath ? `${keyPath}.${key}` : key, out);
+    }
+  } else {
+    out.push(`${keyPath}: ${JSON.stringify(value)}`);
+  }
+}
+
+function formatConfigLayers(layers: Array<{ layer: ConfigLayer; config: PermissionConfig }>): string {
+  const rules: Array<{ rule: string; layer: ConfigLayer }> = [];
+  for (const { layer, config } of layers) {
+    const lines: string[] = [];
+    flattenConfig(config, "", lines);
+    for (const rule of lines) rules.push({ rule, layer });
+  }
+
+  if (rules.length === 0) return "(no rules configured)";
+
+  // Group by key so rules for the same setting are listed together
+  rules.sort((a, b) => a.rule.split(":")[0].localeCompare(b.rule.split(":")[0]));
+  return rules.map(({ rule, layer }) => `  ${rule}  [${layer}]`).join("\n");
+}
+
 // ============================================================================
 // HANDLERS
 // ============================================================================
@@ -226,16 +551,43 @@ async function handleConfigSubcommand(
   const action = parts[0];
 
   if (action === "show") {
-    const config = loadPermissionConfig();
-    const configStr = JSON.stringify(config, null, 2);
-    ctx.ui.notify(`Permission Config:\n${configStr}`, "info");
+    const layers: Array<{ layer: ConfigLayer; config: PermissionConfig }> = [
+      { layer: "global", config: loadGlobalPermissionConfig() },
+    ];
+    const lines = ["Global: ~/.pi/agent/settings.json"];
+
+    const project = loadProjectConfig(ctx.cwd ?? process.cwd());
+    if (project) {
+      lines.push(`Project: ${project.path}${project.trusted ? "" : " (untrusted, ignored)"}`);
+      if (project.trusted) layers.push({ layer: "project", config: project.config });
+    }
+
+    const activeProfile = loadActiveProfile(ctx.cwd ?? process.cwd());
+    if (activeProfile) {
+      lines.push(`Profile: ${activeProfile.name} (PI_PERMISSION_PROFILE)${activeProfile.profile ? "" : " (not defined)"}`);
+      if (activeProfile.profile) layers.push({ layer: "profile", config: activeProfile.profile });
+    }
+
+    const policy = loadSystemPolicy();
+    if (policy) {
+      const status = policy.error
+        ? ` (${policy.error}, locked to Minimal)`
+        : policy.locked
+          ? ` (locked, max: ${LEVEL_INFO[policy.maxLevel].label})`
+          : "";
+      lines.push(`System: ${policy.path}${status}`);
+      layers.push({ layer: "system", config: policy.config });
+    }
+
+    ctx.ui.notify(`Permission Config:\n${lines.join("\n")}\n\n${formatConfigLayers(layers)}`, "info");
     return;
   }
 
   if (action === "reset") {
     savePermissionConfig({});
     invalidateConfigCache();
-    ctx.ui.notify("Permission config reset to defaults", "info");
+    const unchanged = loadSystemPolicy() ? "project config and system policy unchanged" : "project config unchanged";
+    ctx.ui.notify(`Global permission config reset to defaults (${unchanged})`, "info");
     return;
   }
 
@@ -243,8 +595,11 @@ async function handleConfigSubcommand(
   const help = `Usage: /permission config <action>
 
 Actions:
-  show  - Display current configuration
-  reset - Reset to default configuration
+  show  - Display current configuration and which layer each rule comes from
+  reset - Reset global configuration to defaults
+
+Project rules can be added in .pi/permission.json (same format as
+"permissionConfig", asks for trust on first load and after every change).
 
 Edit ~/.pi/agent/settings.json directly for full control:
 
@@ -254,18 +609,275 @@ Edit ~/.pi/agent/settings.json directly for full control:
       "minimal": ["tmux list-*", "tmux show-*"],
       "medium": ["tmux *", "screen *"],
       "high": ["rm -rf *"],
-      "dangerous": ["dd if=* of=/dev/*"]
+      "dangerous": [
+        "dd if=* of=/dev/*",
+        { "command": "git", "args": ["push"], "flags": ["--force"] }
+      ]
     },
     "prefixMappings": [
       { "from": "fvm flutter", "to": "flutter" },
       { "from": "nvm exec", "to": "" }
-    ]
+    ],
+    "writePaths": {
+      "allow": ["**", "/tmp/**"],
+      "deny": ["**/.env", "~/.ssh/**", "/etc/**"]
+    }
   }
 }`;
 
   ctx.ui.notify(help, "info");
 }
 
+/** Handle /permission log subcommand */
+function handleLogSubcommand(args: string, ctx: any): void {
+  const filter: AuditFilter = { limit: 20 };
+  const textParts: string[] = [];
+
+  for (const token of args.split(/\s+/).filter(Boolean)) {
+    if (/^\d+$/.test(token)) {
+      filter.limit = parseInt(token, 10);
+    } else if (token === "blocked" || token === "allowed") {
+      filter.decision = token === "blocked" ? "block" : "allow";
+    } else if (token === "session") {
+      filter.sessionId = ctx.sessionManager?.getSessionId?.();
+    } else if (token.startsWith("tool:")) {
+      filter.tool = token.slice("tool:".length);
+    } else if (token.startsWith("level:") && LEVELS.includes(token.slice("level:".length) as PermissionLevel)) {
+      filter.level = token.slice("level:".length) as PermissionLevel;
+    } else {
+      textParts.push(token);
+    }
+  }
+  if (textParts.length > 0) filter.text = textParts.join(" ");
+
+  const entries = readAuditLog(filter);
+  if (entries.length === 0) {
+    ctx.ui.notify("No matching permission decisions", "info");
+    return;
+  }
+
+  const lines = entries.map((e) => {
+    const time = e.timestamp.replace("T", " ").slice(0, 19);
+    const required = e.classification
+      ? `${e.classification.level}${e.classification.dangerous ? ", dangerous" : ""}`
+      : "-";
+    const choice = e.choice ? ` → ${e.choice}` : "";
+    return `${time} ${e.decision.toUpperCase().padEnd(5)} ${e.tool} [${required}] @${e.level}: ${e.command}${choice}`;
+  });
+
+  ctx.ui.notify(`Permission log (${entries.length}):\n${lines.join("\n")}`, "info");
+}
+
+/** Handle /permission trash subcommand - list this session's trash or restore an entry */
+function handleTrashSubcommand(args: string, ctx: any): void {
+  const sessionId = ctx.sessionManager?.getSessionId?.();
+  const entries = listTrashEntries(sessionId);
+  const restoreMatch = args.match(/^restore\s+(.+)$/i);
+
+  if (restoreMatch) {
+    const target = restoreMatch[1].trim();
+    const entry = /^\d+$/.test(target)
+      ? entries[parseInt(target, 10) - 1]
+      : entries.find((e) => e.originalPath === path.resolve(ctx.cwd ?? process.cwd(), target));
+    if (!entry) {
+      ctx.ui.notify(`No trash entry "${target}" (see /permission trash)`, "warning");
+      return;
+    }
+    try {
+      restoreTrashEntry(entry);
+      ctx.ui.notify(`Restored ${entry.originalPath}`, "info");
+    } catch (error) {
+      ctx.ui.notify(`Couldn't restore ${entry.originalPath}: ${(error as Error).message}`, "warning");
+    }
+    return;
+  }
+
+  if (args) {
+    ctx.ui.notify("Usage: /permission trash [restore <number|path>]", "info");
+    return;
+  }
+
+  if (entries.length === 0) {
+    const hint = isTrashEnabled() ? "" : " (enable with permissionConfig.trash.enabled)";
+    ctx.ui.notify(`Trash is empty for this session${hint}`, "info");
+    return;
+  }
+
+  const lines = entries.map((e, i) => `  ${i + 1}. ${e.timestamp.replace("T", " ").slice(0, 19)} ${e.originalPath}`);
+  ctx.ui.notify(
+    `Trash (${entries.length}):\n${lines.join("\n")}\nRestore with /permission trash restore <number|path>`,
+    "info"
+  );
+}
+
+/** Handle /permission shadow subcommand - summarize would-be prompts and blocks */
+function handleShadowSubcommand(state: PermissionState, ctx: any): void {
+  const records = state.shadowRecords;
+  if (records.length === 0) {
+    const hint = state.permissionMode === "shadow" ? "" : " (use /permission-mode shadow to start recording)";
+    ctx.ui.notify(`No shadow records in this session${hint}`, "info");
+    return;
+  }
+
+  // Group repeated calls so the report lists each distinct command once
+  const groups = new Map<string, { record: ShadowRecord; count: number }>();
+  for (const record of records) {
+    if (record.outcome === "allow") continue;
+    const key = `${record.outcome}\0${record.tool}\0${record.command}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { record, count: 1 });
+  }
+
+  const prompts = records.filter((r) => r.outcome === "prompt").length;
+  const blocks = records.filter((r) => r.outcome === "block").length;
+  const hasCandidate = !!loadPermissionConfig(ctx.cwd ?? process.cwd()).shadow;
+  const lines = [
+    `Shadow report: ${records.length} calls, ${prompts} would prompt, ${blocks} would block`,
+    `Policy: ${hasCandidate ? "candidate (permissionConfig.shadow)" : "active config (no candidate set)"}`,
+  ];
+
+  const sorted = [...groups.values()].sort(
+    (a, b) => Number(b.record.outcome === "block") - Number(a.record.outcome === "block") || b.count - a.count
+  );
+  if (sorted.length > 0) lines.push("");
+  for (const { record, count } of sorted) {
+    const required = `${record.level}${record.dangerous ? ", dangerous" : ""}`;
+    const times = count > 1 ? ` (×${count})` : "";
+    const reason = record.reason ? ` - ${record.reason}` : "";
+    lines.push(`  ${record.outcome.toUpperCase().padEnd(6)} ${record.tool} [${required}] ${record.command}${times}${reason}`);
+  }
+
+  ctx.ui.notify(lines.join("\n"), "info");
+}
+
+/** Bash commands the agent ran on the current branch, oldest first */
+function getBranchBashCommands(ctx: any): string[] {
+  const commands: string[] = [];
+  for (const entry of ctx.sessionManager?.getBranch?.() ?? []) {
+    if (entry.type !== "message" || entry.message?.role !== "assistant") continue;
+    if (!Array.isArray(entry.message.content)) continue;
+    for (const part of entry.message.content) {
+      if (part?.type === "toolCall" && part.name === "bash" && typeof part.arguments?.command === "string") {
+        commands.push(part.arguments.command);
+      }
+    }
+  }
+  return commands;
+}
+
+/** Handle /permission test subcommand: check a corpus file, or list/save the branch's commands */
+function handleTestSubcommand(args: string, ctx: any): void {
+  const cwd = ctx.cwd ?? process.cwd();
+
+  if (!args) {
+    ctx.ui.notify(
+      `Usage:
+  /permission test <file>                 - Check "<expected> <command>" lines against the active config
+  /permission test session                - Classify this branch's bash commands
+  /permission test session --save <file>  - Save them as a corpus for later runs
+
+Expected values: minimal, low, medium, high, dangerous`,
+      "info"
+    );
+    return;
+  }
+
+  const sessionMatch = /^session(?:\s+--save\s+(.+))?$/i.exec(args);
+  if (sessionMatch) {
+    const commands = getBranchBashCommands(ctx);
+    if (commands.length === 0) {
+      ctx.ui.notify("No bash commands on this branch", "info");
+      return;
+    }
+
+    const corpus = formatPolicyCorpus(commands, undefined, cwd);
+    if (sessionMatch[1]) {
+      const target = path.resolve(cwd, sessionMatch[1]);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, corpus);
+      ctx.ui.notify(`Saved ${corpus.trim().split("\n").length} commands to ${target}`, "info");
+      return;
+    }
+
+    // Flag commands the audit log recorded with a different classification when they ran
+    const recorded = new Map<string, string>();
+    for (const entry of readAuditLog({ tool: "bash", sessionId: ctx.sessionManager?.getSessionId?.() })) {
+      if (entry.classification) recorded.set(entry.command.trim(), getPolicyExpectation(entry.classification));
+    }
+    const lines = parsePolicyCorpus(corpus).cases.map(({ command, expected }) => {
+      const before = recorded.get(command);
+      const line = `${expected.padEnd(9)} ${command}`;
+      return before && before !== expected ? `${line}  (was ${before})` : line;
+    });
+    ctx.ui.notify(`Bash commands on this branch (${lines.length}):\n${lines.join("\n")}`, "info");
+    return;
+  }
+
+  const corpusPath = path.resolve(cwd, args);
+  let text: string;
+  try {
+    text = fs.readFileSync(corpusPath, "utf-8");
+  } catch {
+    ctx.ui.notify(`Cannot read corpus: ${corpusPath}`, "error");
+    return;
+  }
+
+  const { cases, errors } = parsePolicyCorpus(text);
+  const results = runPolicyTests(cases, undefined, cwd);
+  const failures = results.filter((r) => !r.passed);
+  const lines = [`Policy test: ${results.length - failures.length}/${results.length} passed (${corpusPath})`];
+  for (const failure of failures) {
+    const actual = getPolicyExpectation(failure.classification);
+    lines.push(`  line ${failure.line}: ${failure.command}`, `    expected ${failure.expected}, got ${actual}`);
+  }
+  if (errors.length > 0) {
+    lines.push("", "Skipped:", ...errors.map((e) => `  ${e}`));
+  }
+
+  ctx.ui.notify(lines.join("\n"), failures.length > 0 || errors.length > 0 ? "warning" : "info");
+}
+
+/** Handle /permission explain subcommand */
+function handleExplainSubcommand(command: string, ctx: any): void {
+  if (!command) {
+    ctx.ui.notify("Usage: /permission explain <command>", "info");
+    return;
+  }
+
+  const explanation = explainCommand(command, undefined, ctx.cwd);
+  const { level, dangerous } = explanation.classification;
+  const lines = [`Command: ${explanation.command}`];
+  if (explanation.normalizedCommand !== explanation.command) {
+    lines.push(`Normalized: ${explanation.normalizedCommand}`);
+  }
+  lines.push(`Requires: ${LEVEL_INFO[level].label}${dangerous ? " (dangerous - always prompts)" : ""}`);
+  if (explanation.classification.capabilities.length > 0) {
+    const labels = explanation.classification.capabilities.map((c) => CAPABILITY_INFO[c].label);
+    lines.push(`Capabilities: ${labels.join(", ")}`);
+  }
+
+  if (explanation.segments.length > 0) {
+    lines.push("", "Segments:");
+    explanation.segments.forEach((segment, i) => {
+      const segLevel = LEVEL_INFO[segment.classification.level].label;
+      lines.push(`  ${i + 1}. ${segment.command} → ${segLevel}: ${segment.reason}`);
+    });
+  }
+
+  if (explanation.reasons.length > 0) {
+    lines.push("", "Command-level:");
+    for (const reason of explanation.reasons) lines.push(`  - ${reason}`);
+  }
+
+  const suggestion = suggestRewrite(command);
+  if (suggestion) {
+    lines.push("", `Suggestion if blocked: ${formatRewriteSuggestion(suggestion)}`);
+  }
+
+  ctx.ui.notify(lines.join("\n"), "info");
+}
+
 /** Handle /permission command */
 export async function handlePermissionCommand(
   state: PermissionState,
@@ -281,11 +893,71 @@ export async function handlePermissionCommand(
     return;
   }
 
-  // Direct level set: /permission medium
-  if (arg && LEVELS.includes(arg as PermissionLevel)) {
-    const newLevel = arg as PermissionLevel;
+  // Handle explain subcommand (keeps the original command casing)
+  if (arg === "explain" || arg.startsWith("explain ")) {
+    handleExplainSubcommand(args.trim().replace(/^explain\s*/i, ''), ctx);
+    return;
+  }
 
-    if (hasInteractiveUI(ctx)) {
+  // Handle test subcommand (keeps the original path casing)
+  if (arg === "test" || arg.startsWith("test ")) {
+    handleTestSubcommand(args.trim().replace(/^test\s*/i, ''), ctx);
+    return;
+  }
+
+  // Handle trash subcommand: /permission trash [restore <number|path>] (keeps the original path casing)
+  if (arg === "trash" || arg.startsWith("trash ")) {
+    handleTrashSubcommand(args.trim().replace(/^trash\s*/i, ''), ctx);
+    return;
+  }
+
+  // Handle shadow subcommand: /permission shadow
+  if (arg === "shadow") {
+    handleShadowSubcommand(state, ctx);
+    return;
+  }
+
+  // Handle log subcommand: /permission log [count] [blocked|allowed] [session] [tool:x] [level:x] [text]
+  if (arg === "log" || arg.startsWith("log ")) {
+    handleLogSubcommand(arg.replace(/^log\s*/, ''), ctx);
+    return;
+  }
+
+  // Direct level set: /permission medium [--session|--global|--for 15m]
+  const levelMatch = arg.match(/^(\S+)(?:\s+--(session|global)|\s+--for\s+(\S+))?$/);
+  if (levelMatch && LEVELS.includes(levelMatch[1] as PermissionLevel)) {
+    const newLevel = levelMatch[1] as PermissionLevel;
+    const scopeFlag = levelMatch[2];
+    const durationText = levelMatch[3];
+
+    const violation = getPolicyLevelViolation(newLevel, loadSystemPolicy());
+    if (violation) {
+      ctx.ui.notify(violation, "warning");
+      return;
+    }
+
+    if (durationText) {
+      const durationMs = parseDuration(durationText);
+      if (durationMs === null) {
+        ctx.ui.notify(`Invalid duration "${durationText}" (use e.g. 15m, 1h, 90s; max 24h)`, "warning");
+        return;
+      }
+      // A temporary level only ever raises the level the session falls back to
+      const baseLevel = state.elevation ? getBaseLevel(state, ctx) : state.currentLevel;
+      if (LEVEL_INDEX[newLevel] <= LEVEL_INDEX[baseLevel]) {
+        const message = state.elevation
+          ? `${LEVEL_INFO[newLevel].label} is not above ${LEVEL_INFO[baseLevel].label}, the level after the temporary one - use /permission ${newLevel} to change the level`
+          : `Permission is already ${LEVEL_INFO[baseLevel].label}`;
+        ctx.ui.notify(message, "info");
+        return;
+      }
+      elevateLevel(state, newLevel, durationMs, ctx);
+      ctx.ui.notify(`Permission: ${LEVEL_INFO[newLevel].label} for ${formatDuration(durationMs)}`, "info");
+    } else if (scopeFlag) {
+      setLevel(state, newLevel, scopeFlag === "global", ctx);
+      const saveMsg = scopeFlag === "global" ? " (saved globally)" : " (session only)";
+      ctx.ui.notify(`Permission: ${LEVEL_INFO[newLevel].label}${saveMsg}`, "info");
+    } else if (hasInteractiveUI(ctx)) {
       const scope = await ctx.ui.select("Save permission level to:", [
         "Session only",
         "Global (persists)",
@@ -305,14 +977,15 @@ export async function handlePermissionCommand(
   // Show current level (no UI)
   if (!hasInteractiveUI(ctx)) {
     ctx.ui.notify(
-      `Current permission: ${LEVEL_INFO[state.currentLevel].label} (${LEVEL_INFO[state.currentLevel].desc})`,
+      `Current permission: ${LEVEL_INFO[state.currentLevel].label} (${LEVEL_INFO[state.currentLevel].desc}, ${getLevelScope(state)})`,
       "info"
     );
     return;
   }
 
-  // Show selector
-  const options = LEVELS.map((level) => {
+  // Show selector (levels above the system policy's maximum aren't offered)
+  const policy = loadSystemPolicy();
+  const options = LEVELS.filter((level) => !getPolicyLevelViolation(level, policy)).map((level) => {
     const info = LEVEL_INFO[level];
     const marker = level === state.currentLevel ? " ← current" : "";
     return `${info.label}: ${info.desc}${marker}`;
@@ -344,6 +1017,12 @@ export async function handlePermissionModeCommand(
   if (arg && PERMISSION_MODES.includes(arg as PermissionMode)) {
     const newMode = arg as PermissionMode;
 
+    const violation = getPolicyModeViolation(newMode, loadSystemPolicy());
+    if (violation) {
+      ctx.ui.notify(violation, "warning");
+      return;
+    }
+
     if (hasInteractiveUI(ctx)) {
       const scope = await ctx.ui.select("Save permission mode to:", [
         "Session only",
@@ -369,7 +1048,8 @@ export async function handlePermissionModeCommand(
     return;
   }
 
-  const options = PERMISSION_MODES.map((mode) => {
+  const policy = loadSystemPolicy();
+  const options = PERMISSION_MODES.filter((mode) => !getPolicyModeViolation(mode, policy)).map((mode) => {
     const info = PERMISSION_MODE_INFO[mode];
     const marker = mode === state.permissionMode ? " ← current" : "";
     return `${info.label}: ${info.desc}${marker}`;
@@ -392,16 +1072,15 @@ export async function handlePermissionModeCommand(
 
 /** Handle session_start - initialize level and show status */
 export function handleSessionStart(state: PermissionState, ctx: any): void {
-  // Check env var first (for print mode)
-  const envLevel = process.env.PI_PERMISSION_LEVEL?.toLowerCase();
-  if (envLevel && LEVELS.includes(envLevel as PermissionLevel)) {
-    state.currentLevel = envLevel as PermissionLevel;
-  } else {
-    const globalLevel = loadGlobalPermission();
-    if (globalLevel) {
-      state.currentLevel = globalLevel;
-    }
-  }
+  // The system policy is read once per session
+  invalidateConfigCache();
+
+  // A missing profile fails closed to Minimal rather than falling back to the global level
+  const activeProfile = loadActiveProfile(ctx.cwd ?? process.cwd());
+  state.profileLevel = activeProfile ? (activeProfile.profile ? activeProfile.profile.level : "minimal") : undefined;
+
+  // Env var first (for print mode), then profile, then session entry, then global
+  restoreLevel(state, ctx);
 
   if (ctx.hasUI) {
     const globalMode = loadGlobalPermissionMode();
@@ -410,10 +1089,49 @@ export function handleSessionStart(state: PermissionState, ctx: any): void {
     }
   }
 
-  if (ctx.hasUI) {
-    if (ctx.ui?.setStatus) {
-      ctx.ui.setStatus("authority", getStatusText(state.currentLevel));
+  // The profile's mode applies even without a UI (e.g. block for a read-only subagent)
+  if (activeProfile?.profile?.mode) {
+    state.permissionMode = activeProfile.profile.mode;
+    state.isModeSessionOnly = true;
+  }
+
+  const policy = loadSystemPolicy();
+  const modeViolation = getPolicyModeViolation(state.permissionMode, policy);
+  if (modeViolation) {
+    state.permissionMode = "ask";
+    state.isModeSessionOnly = true;
+  }
+
+  if (policy && ctx.hasUI) {
+    if (policy.error) {
+      ctx.ui.notify(`System permission policy ${policy.path} can't be used (${policy.error}) - locked to Minimal`, "warning");
+    } else if (state.isPolicyLevel) {
+      ctx.ui.notify(`Permission capped at ${LEVEL_INFO[state.currentLevel].label} by the system policy (${policy.path})`, "warning");
+    }
+    if (modeViolation) {
+      ctx.ui.notify(`${modeViolation} - using Ask`, "warning");
+    }
+  }
+
+  if (activeProfile && ctx.hasUI) {
+    if (!activeProfile.profile) {
+      ctx.ui.notify(`Unknown permission profile "${activeProfile.name}" - using Minimal`, "warning");
+    } else if (!isQuietMode(ctx)) {
+      ctx.ui.notify(`Permission profile: ${activeProfile.name}`, "info");
     }
+  }
+
+  if (hasInteractiveUI(ctx) && !state.approvalServer && loadGlobalPermissionConfig().approvals?.serve) {
+    try {
+      state.approvalServer = startApprovalServer(state, ctx);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ctx.ui.notify(`Could not start permission approval server: ${message}`, "warning");
+    }
+  }
+
+  if (ctx.hasUI) {
+    updateStatus(state, ctx);
     if (state.currentLevel === "bypassed") {
       ctx.ui.notify("⚠️ Permission bypassed - all checks disabled!", "warning");
     } else if (!isQuietMode(ctx)) {
@@ -421,8 +1139,329 @@ export function handleSessionStart(state: PermissionState, ctx: any): void {
     }
     if (state.permissionMode === "block") {
       ctx.ui.notify("Permission mode: Block (use /permission-mode to change)", "info");
+    } else if (state.permissionMode === "shadow") {
+      ctx.ui.notify("⚠️ Permission mode: Shadow - all calls allowed (use /permission shadow for the report)", "warning");
+    }
+  }
+}
+
+/** Ask the user to trust an unseen or changed project config */
+export async function handleProjectConfigTrust(ctx: any): Promise<void> {
+  const project = loadProjectConfig(ctx.cwd ?? process.cwd());
+  if (!project || project.trusted) return;
+
+  if (!hasInteractiveUI(ctx)) {
+    if (ctx.hasUI) {
+      ctx.ui.notify(`Ignoring untrusted project permission config: ${project.path}`, "warning");
     }
+    return;
+  }
+
+  const choice = await ctx.ui.select(
+    `Trust project permission config?\n${project.path}`,
+    ["Trust", "Ignore (this session)"]
+  );
+
+  if (choice === "Trust") {
+    trustProjectConfig(project);
+    invalidateConfigCache();
+    ctx.ui.notify(`Project permission config trusted: ${project.path}`, "info");
+  } else {
+    ctx.ui.notify("Project permission config ignored", "info");
+  }
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/** What happened during a permission check, for the audit log */
+interface DecisionRecord {
+  /** Option the user selected, if a prompt was shown */
+  choice?: string;
+  /** Candidate policy evaluation (shadow mode) */
+  shadow?: ShadowEvaluation;
+}
+
+type ToolCallResult = { block: true; reason: string } | undefined;
+
+/** Show a permission prompt and remember the user's choice */
+async function promptUser(
+  ctx: any,
+  record: DecisionRecord,
+  title: string,
+  options: string[]
+): Promise<string | undefined> {
+  playPermissionSound();
+  const choice = await ctx.ui.select(title, options);
+  record.choice = choice ?? "Dismissed";
+  return choice;
+}
+
+function auditDecision(
+  ctx: any,
+  entry: Pick<AuditEntry, "tool" | "command" | "normalizedCommand" | "classification" | "level" | "mode">,
+  result: ToolCallResult,
+  record: DecisionRecord
+): void {
+  appendAuditEntry({
+    timestamp: new Date().toISOString(),
+    sessionId: ctx.sessionManager?.getSessionId?.(),
+    ...entry,
+    decision: result ? "block" : "allow",
+    choice: record.choice,
+    reason: result?.reason,
+    shadow: record.shadow,
+  });
+}
+
+/**
+ * Shadow mode: allow the call and record what the candidate policy would have done
+ * Without a UI or approval channel, a would-be prompt is a would-be block
+ */
+function recordShadowDecision(
+  state: PermissionState,
+  ctx: any,
+  record: DecisionRecord,
+  tool: string,
+  command: string,
+  evaluation: ShadowEvaluation
+): ToolCallResult {
+  const shadow =
+    evaluation.outcome === "prompt" && !hasInteractiveUI(ctx) && !getApprovalChannel()
+      ? { ...evaluation, outcome: "block" as const }
+      : evaluation;
+  record.shadow = shadow;
+  state.shadowRecords.push({ ...shadow, tool, command });
+  return undefined;
+}
+
+// ============================================================================
+// HEADLESS APPROVALS
+// ============================================================================
+
+/**
+ * In print/RPC mode, ask the configured approval channel instead of blocking outright
+ * Returns null when no channel is configured so the caller falls back to its block message
+ */
+async function askApprovalChannel(
+  state: PermissionState,
+  ctx: any,
+  record: DecisionRecord,
+  request: Pick<ApprovalRequest, "tool" | "command" | "requiredLevel" | "reason">
+): Promise<ToolCallResult | null> {
+  if (state.permissionMode === "block") return null;
+
+  const channel = getApprovalChannel();
+  if (!channel) return null;
+
+  const response = await requestApproval(
+    {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      sessionId: ctx.sessionManager?.getSessionId?.(),
+      cwd: ctx.cwd ?? process.cwd(),
+      level: state.currentLevel,
+      ...request,
+    },
+    channel
+  );
+
+  record.choice = response.approved ? "Approved via approval channel" : "Denied via approval channel";
+  if (response.approved) return undefined;
+
+  return {
+    block: true,
+    reason: `Denied by approval channel${response.reason ? ` (${response.reason})` : ""}. ${request.reason}`
+  };
+}
+
+/** Unix socket that answers approval requests from subagents of an interactive session */
+interface ApprovalServer {
+  server: http.Server;
+  /** Private temp directory holding the socket */
+  dir: string;
+}
+
+/** Larger request bodies are rejected */
+const MAX_APPROVAL_REQUEST_BYTES = 64 * 1024;
+
+function isApprovalRequest(value: unknown): value is ApprovalRequest {
+  if (!value || typeof value !== "object") return false;
+  const request = value as Record<string, unknown>;
+  return (
+    typeof request.tool === "string" &&
+    typeof request.command === "string" &&
+    typeof request.reason === "string" &&
+    (request.requiredLevel === undefined || LEVELS.includes(request.requiredLevel as PermissionLevel))
+  );
+}
+
+/** Show a subagent's request to the user; the prompt is dismissed if the subagent stops waiting */
+async function promptApprovalRequest(
+  ctx: any,
+  request: ApprovalRequest,
+  signal: AbortSignal
+): Promise<ApprovalResponse> {
+  if (signal.aborted) return { approved: false, reason: "Request abandoned" };
+
+  // The reason and cwd are the subagent's own words - what would run is shown first
+  const required = request.requiredLevel ? LEVEL_INFO[request.requiredLevel].label : "confirmation";
+  const lines = [
+    "🔐 Subagent approval",
+    `Tool: ${request.tool}`,
+    `Command: ${request.command}`,
+    `Requires: ${required}`,
+    "",
+    `Reason given: ${request.reason}`,
+  ];
+  if (typeof request.cwd === "string") lines.push(`cwd given: ${request.cwd}`);
+  playPermissionSound();
+  const choice = await ctx.ui.select(lines.join("\n"), ["Allow once", "Deny"], { signal });
+  return choice === "Allow once" ? { approved: true } : { approved: false, reason: "Denied by user" };
+}
+
+/**
+ * Listen on a Unix socket and publish its URL, so print-mode subagents spawned from this session
+ * ask here instead of blocking. The URL is only handed to spawned subagents, never set in this
+ * process's environment, where every bash command would inherit it.
+ */
+function startApprovalServer(state: PermissionState, ctx: any): ApprovalServer {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-permission-"));
+  const socketPath = path.join(dir, "approvals.sock");
+  // Prompts are shown one at a time - concurrent subagents wait their turn
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_APPROVAL_REQUEST_BYTES) req.destroy();
+      else chunks.push(chunk);
+    });
+    req.on("end", () => {
+      let request: unknown;
+      try {
+        request = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+      } catch {}
+      if (req.method !== "POST" || !isApprovalRequest(request)) {
+        res.writeHead(400).end();
+        return;
+      }
+
+      const abort = new AbortController();
+      res.on("close", () => abort.abort());
+      const answer = queue.then(() => promptApprovalRequest(ctx, request, abort.signal));
+      queue = answer.catch(() => {});
+      answer.then(
+        (response) => {
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(JSON.stringify(response));
+        },
+        () => res.writeHead(500).end()
+      );
+    });
+  });
+
+  // Listen errors (EADDRINUSE, EACCES) arrive asynchronously - without a listener they would crash pi
+  server.on("error", (error) => {
+    if (state.approvalServer?.server === server) stopApprovalServer(state);
+    else fs.rmSync(dir, { recursive: true, force: true });
+    ctx.ui?.notify?.(
+      `Permission approval server failed: ${error.message} - subagents will block instead of asking`,
+      "warning"
+    );
+  });
+
+  // A stale socket file would make listen fail
+  fs.rmSync(socketPath, { force: true });
+  server.listen(socketPath, () => {
+    if (state.approvalServer?.server === server) state.publishApprovalUrl?.(`unix:${socketPath}`);
+  });
+  server.unref();
+  return { server, dir };
+}
+
+function stopApprovalServer(state: PermissionState): void {
+  const approvalServer = state.approvalServer;
+  if (!approvalServer) return;
+  state.approvalServer = undefined;
+  approvalServer.server.close();
+  fs.rmSync(approvalServer.dir, { recursive: true, force: true });
+  state.publishApprovalUrl?.(undefined);
+}
+
+// ============================================================================
+// SECRET PATHS
+// ============================================================================
+
+/** Tools whose "path" input is read into the conversation */
+const SECRET_READ_TOOLS = new Set(["read", "grep"]);
+
+/**
+ * Sensitive files prompt (or block) at every level, since their contents would reach the transcript
+ * Returns a block result, or undefined to continue with the regular checks
+ */
+async function checkSecretAccess(
+  state: PermissionState,
+  ctx: any,
+  record: DecisionRecord,
+  tool: string,
+  command: string,
+  matches: SecretPathMatch[]
+): Promise<ToolCallResult> {
+  const paths = matches.map((m) => m.resolvedPath).join(", ");
+
+  if (matches.some((m) => m.onRead === "block")) {
+    return {
+      block: true,
+      reason: `Blocked by secret path rules. Reads: ${paths}
+Sensitive files are not read into the conversation. Ask the user for the values you need.`
+    };
   }
+
+  if (!hasInteractiveUI(ctx)) {
+    const approval = await askApprovalChannel(state, ctx, record, {
+      tool,
+      command,
+      reason: `Reads sensitive file: ${paths}`,
+    });
+    if (approval !== null) return approval;
+    return {
+      block: true,
+      reason: `Reads sensitive file (${paths}): ${command}
+Sensitive files require confirmation; configure exceptions in permissionConfig.secretPaths.allow.`
+    };
+  }
+
+  if (state.permissionMode === "block") {
+    return {
+      block: true,
+      reason: `Blocked by permission mode (block). Reads sensitive file: ${paths}
+Use /permission-mode ask to enable confirmations.`
+    };
+  }
+
+  const choice = await promptUser(ctx, record, `🔑 Reads sensitive file: ${paths}`, ["Allow once", "Cancel"]);
+  if (choice !== "Allow once") {
+    return { block: true, reason: "Cancelled" };
+  }
+  return undefined;
+}
+
+/** Shadow mode: a sensitive file read would have prompted (or blocked) regardless of level */
+function withSecretShadow(
+  evaluation: ShadowEvaluation,
+  level: PermissionLevel,
+  matches: SecretPathMatch[]
+): ShadowEvaluation {
+  if (level === "bypassed" || matches.length === 0 || evaluation.outcome === "block") return evaluation;
+  return {
+    ...evaluation,
+    outcome: matches.some((m) => m.onRead === "block") ? "block" : "prompt",
+    reason: `reads sensitive file ${matches.map((m) => m.resolvedPath).join(", ")}`,
+  };
 }
 
 /** Handle bash tool_call - check permission and prompt if needed */
@@ -430,14 +1469,161 @@ export async function handleBashToolCall(
   state: PermissionState,
   command: string,
   ctx: any
-): Promise<{ block: true; reason: string } | undefined> {
+): Promise<ToolCallResult> {
+  const { currentLevel: level, permissionMode: mode } = state;
+  const classification = classifyCommand(command, undefined, ctx.cwd);
+  const record: DecisionRecord = {};
+  const result =
+    mode === "shadow"
+      ? recordShadowDecision(
+          state,
+          ctx,
+          record,
+          "bash",
+          command,
+          withSecretShadow(evaluateShadowCommand(command, level, undefined, ctx.cwd), level, findSecretReads(command, ctx.cwd ?? process.cwd()))
+        )
+      : withRewriteSuggestion(command, await checkBashCommand(state, command, classification, ctx, record));
+  auditDecision(
+    ctx,
+    { tool: "bash", command, normalizedCommand: normalizeCommand(command), classification, level, mode },
+    result,
+    record
+  );
+  return result;
+}
+
+/** Tell the agent how to proceed when a blocked command has a safer equivalent */
+function withRewriteSuggestion(command: string, result: ToolCallResult): ToolCallResult {
+  if (!result) return result;
+  const suggestion = suggestRewrite(command);
+  if (!suggestion) return result;
+  return { ...result, reason: `${result.reason}\nSuggestion: ${formatRewriteSuggestion(suggestion)}` };
+}
+
+/**
+ * Trash mode: turn an allowed simple rm into a move to the session trash
+ * Targets denied by writePaths are confirmed (or blocked) first, like a write to them.
+ * Returns the block result when the rm must not run, true when the command was rewritten;
+ * only call it once the regular checks allowed the command
+ */
+async function moveRmToTrash(
+  state: PermissionState,
+  input: Record<string, unknown>,
+  ctx: any
+): Promise<ToolCallResult | boolean> {
+  if (state.permissionMode === "shadow") return false;
+  const command = input.command;
+  if (typeof command !== "string" || !isTrashEnabled()) return false;
+
+  const cwd = ctx.cwd ?? process.cwd();
+  const targets = parseTrashableRm(command, cwd);
+  if (!targets) return false;
+
+  const entry = {
+    tool: "bash",
+    command,
+    normalizedCommand: normalizeCommand(command),
+    classification: classifyCommand(command, undefined, cwd),
+    level: state.currentLevel,
+    mode: state.permissionMode,
+  };
+  const record: DecisionRecord = {};
+  for (const target of targets) {
+    const pathCheck = checkWritePath(target, cwd);
+    if (!pathCheck.denied) continue;
+    const result = await checkProtectedPath({ state, toolName: "bash", filePath: target, ctx }, record, pathCheck, "Delete");
+    if (result) {
+      auditDecision(ctx, entry, result, record);
+      return result;
+    }
+  }
+
+  let plan: TrashPlan;
+  try {
+    plan = planTrashMove(targets, ctx.sessionManager?.getSessionId?.());
+  } catch (error) {
+    // Never fall back to deleting for good what the trash was meant to keep
+    const result = {
+      block: true as const,
+      reason: `Could not move to the trash (${error instanceof Error ? error.message : String(error)}). rm was not run.`,
+    };
+    auditDecision(ctx, entry, result, record);
+    return result;
+  }
+  input.command = plan.command;
+
+  auditDecision(ctx, entry, undefined, { ...record, choice: record.choice ?? "Moved to trash" });
+  if (hasInteractiveUI(ctx) && !isQuietMode(ctx)) {
+    const paths = plan.entries.map((e) => path.relative(cwd, e.originalPath) || e.originalPath).join(", ");
+    ctx.ui.notify(`Moved to trash: ${paths} (/permission trash to restore)`, "info");
+  }
+  return true;
+}
+
+/**
+ * Handle a bash tool_call: check the command, then move an allowed rm to the trash
+ * or run the command under its limits. Rewrites input.command/timeout in place.
+ */
+export async function handleBashToolInput(
+  state: PermissionState,
+  input: Record<string, unknown>,
+  ctx: any
+): Promise<ToolCallResult> {
+  const result = await handleBashToolCall(state, input.command as string, ctx);
+  if (result) return result;
+  const trash = await moveRmToTrash(state, input, ctx);
+  if (typeof trash === "object") return trash;
+  if (!trash) limitBashCommand(input, ctx.cwd);
+  return undefined;
+}
+
+/**
+ * Run an approved bash command under the limits configured for its level
+ * Output and ulimits are enforced by wrapping the command, wall time by the bash tool's timeout
+ */
+function limitBashCommand(input: Record<string, unknown>, cwd?: string): void {
+  const command = input.command;
+  if (typeof command !== "string") return;
+  const limits = getCommandLimits(classifyCommand(command, undefined, cwd).level);
+  if (!limits) return;
+
+  input.command = applyCommandLimits(command, limits);
+  if (limits.timeoutSeconds) {
+    const requested = typeof input.timeout === "number" && input.timeout > 0 ? input.timeout : Infinity;
+    input.timeout = Math.min(requested, limits.timeoutSeconds);
+  }
+}
+
+async function checkBashCommand(
+  state: PermissionState,
+  command: string,
+  classification: Classification,
+  ctx: any,
+  record: DecisionRecord
+): Promise<ToolCallResult> {
   if (state.currentLevel === "bypassed") return undefined;
 
-  const classification = classifyCommand(command);
+  const policy = loadSystemPolicy();
+  const policyResult = checkPolicyMaxLevel(policy, classification.level, `Command: ${command}`);
+  if (policyResult) return policyResult;
+
+  // Sensitive files - prompt at every level, then continue with the regular checks
+  const secrets = findSecretReads(command, ctx.cwd ?? process.cwd());
+  if (secrets.length > 0) {
+    const secretResult = await checkSecretAccess(state, ctx, record, "bash", command, secrets);
+    if (secretResult) return secretResult;
+  }
 
   // Dangerous commands - always prompt unless in block mode
   if (classification.dangerous) {
     if (!hasInteractiveUI(ctx)) {
+      const approval = await askApprovalChannel(state, ctx, record, {
+        tool: "bash",
+        command,
+        reason: `Dangerous command: ${command}`,
+      });
+      if (approval !== null) return approval;
       return {
         block: true,
         reason: `Dangerous command requires confirmation: ${command}
@@ -453,8 +1639,9 @@ Use /permission-mode ask to enable confirmations.`
       };
     }
 
-    playPermissionSound();
-    const choice = await ctx.ui.select(
+    const choice = await promptUser(
+      ctx,
+      record,
       `⚠️ Dangerous command`,
       ["Allow once", "Cancel"]
     );
@@ -465,17 +1652,62 @@ Use /permission-mode ask to enable confirmations.`
     return undefined;
   }
 
+  // Capabilities the config requires confirmation for - prompt at every level
+  const confirmable = getConfirmableCapabilities(classification);
+  if (confirmable.length > 0) {
+    const labels = confirmable.map((c) => CAPABILITY_INFO[c].label).join(", ");
+
+    if (!hasInteractiveUI(ctx)) {
+      const approval = await askApprovalChannel(state, ctx, record, {
+        tool: "bash",
+        command,
+        reason: `Command requires confirmation (${labels}): ${command}`,
+      });
+      if (approval !== null) return approval;
+      return {
+        block: true,
+        reason: `Command requires confirmation (${labels}): ${command}
+Confirmation is configured in permissionConfig.capabilities.confirm.`
+      };
+    }
+
+    if (state.permissionMode === "block") {
+      return {
+        block: true,
+        reason: `Blocked by permission mode (block). Command requires confirmation (${labels}): ${command}
+Use /permission-mode ask to enable confirmations.`
+      };
+    }
+
+    const choice = await promptUser(ctx, record, `⚠️ Requires confirmation (${labels})`, ["Allow once", "Cancel"]);
+
+    if (choice !== "Allow once") {
+      return { block: true, reason: "Cancelled" };
+    }
+    return undefined;
+  }
+
   // Check level
   const requiredIndex = LEVEL_INDEX[classification.level];
   const currentIndex = LEVEL_INDEX[state.currentLevel];
 
   if (requiredIndex <= currentIndex) return undefined;
 
+  // Approved earlier in this session
+  if (isAllowedForSession(state, command)) return undefined;
+
   const requiredLevel = classification.level;
   const requiredInfo = LEVEL_INFO[requiredLevel];
 
-  // Print mode: block
+  // Print mode: ask the approval channel, or block
   if (!hasInteractiveUI(ctx)) {
+    const approval = await askApprovalChannel(state, ctx, record, {
+      tool: "bash",
+      command,
+      requiredLevel,
+      reason: `Requires ${requiredInfo.label}: ${command}`,
+    });
+    if (approval !== null) return approval;
     return {
       block: true,
       reason: `Blocked by permission (${state.currentLevel}). Command: ${command}
@@ -494,15 +1726,53 @@ Use /permission ${requiredLevel} or /permission-mode ask to enable prompts.`
   }
 
   // Interactive mode: prompt
-  playPermissionSound();
-  const choice = await ctx.ui.select(
-    `Requires ${requiredInfo.label}`,
-    ["Allow once", `Allow all (${requiredInfo.label})`, "Cancel"]
-  );
+  const normalized = normalizeCommand(command).trim();
+  const pattern = suggestCommandPattern(command);
+  const allowCommandOption = "Allow this command (session)";
+  const allowPatternOption = pattern && pattern !== normalized ? `Allow "${pattern}" (session)` : undefined;
+  // Only exact commands are persisted - a saved prefix pattern would also match dangerous variants
+  // A locked system policy ignores saved overrides, so none are offered
+  const saveOverrideOption = !/[*?]/.test(normalized) && !policy?.locked
+    ? `Always allow this command at ${LEVEL_INFO[state.currentLevel].label} (save)`
+    : undefined;
+  const allowAllOption = `Allow all (${requiredInfo.label})`;
+  const allowTemporaryOption = `Allow all for ${formatDuration(PROMPT_ELEVATION_MS)} (${requiredInfo.label})`;
+
+  const options = ["Allow once", allowCommandOption];
+  if (allowPatternOption) options.push(allowPatternOption);
+  if (saveOverrideOption) options.push(saveOverrideOption);
+  options.push(allowTemporaryOption, allowAllOption, "Cancel");
+
+  const choice = await promptUser(ctx, record, `Requires ${requiredInfo.label}`, options);
 
   if (choice === "Allow once") return undefined;
 
-  if (choice === `Allow all (${requiredInfo.label})`) {
+  if (choice === allowCommandOption) {
+    state.allowedCommands.add(normalized);
+    return undefined;
+  }
+
+  if (pattern && choice === allowPatternOption) {
+    state.allowedPatterns.push(pattern);
+    ctx.ui.notify(`Allowed "${pattern}" for this session`, "info");
+    return undefined;
+  }
+
+  if (saveOverrideOption && choice === saveOverrideOption) {
+    // Override at the current level so the command runs without raising the level
+    const list = state.currentLevel;
+    addGlobalOverride(list, normalized);
+    ctx.ui.notify(`Saved override: "${normalized}" → ${LEVEL_INFO[list].label}`, "info");
+    return undefined;
+  }
+
+  if (choice === allowTemporaryOption) {
+    elevateLevel(state, requiredLevel, PROMPT_ELEVATION_MS, ctx);
+    ctx.ui.notify(`Permission → ${requiredInfo.label} for ${formatDuration(PROMPT_ELEVATION_MS)}`, "info");
+    return undefined;
+  }
+
+  if (choice === allowAllOption) {
     setLevel(state, requiredLevel, true, ctx);
     ctx.ui.notify(`Permission → ${requiredInfo.label} (saved globally)`, "info");
     return undefined;
@@ -522,18 +1792,58 @@ export interface WriteToolCallOptions {
 /** Handle write/edit tool_call - check permission and prompt if needed */
 export async function handleWriteToolCall(
   opts: WriteToolCallOptions
-): Promise<{ block: true; reason: string } | undefined> {
+): Promise<ToolCallResult> {
+  const { currentLevel: level, permissionMode: mode } = opts.state;
+  const record: DecisionRecord = {};
+  const result =
+    mode === "shadow"
+      ? recordShadowDecision(
+          opts.state,
+          opts.ctx,
+          record,
+          opts.toolName,
+          opts.filePath,
+          evaluateShadowWrite(opts.filePath, opts.ctx.cwd ?? process.cwd(), level)
+        )
+      : await checkWriteTarget(opts, record);
+  auditDecision(opts.ctx, { tool: opts.toolName, command: opts.filePath, level, mode }, result, record);
+  return result;
+}
+
+async function checkWriteTarget(
+  opts: WriteToolCallOptions,
+  record: DecisionRecord
+): Promise<ToolCallResult> {
   const { state, toolName, filePath, ctx } = opts;
-  
+
   if (state.currentLevel === "bypassed") return undefined;
 
+  const action = toolName === "write" ? "Write" : "Edit";
+
+  const policyResult = checkPolicyMaxLevel(loadSystemPolicy(), "low", `${action}: ${filePath}`);
+  if (policyResult) return policyResult;
+
+  // Path rules apply at every level - denied paths always prompt or block
+  const pathCheck = checkWritePath(filePath, ctx.cwd ?? process.cwd());
+  if (pathCheck.denied) {
+    const pathResult = await checkProtectedPath(opts, record, pathCheck, action);
+    if (pathResult) return pathResult;
+    // Approving the protected path doesn't grant the level - the regular check still applies
+  }
+
   if (LEVEL_INDEX[state.currentLevel] >= LEVEL_INDEX["low"]) return undefined;
 
-  const action = toolName === "write" ? "Write" : "Edit";
   const message = `Requires Low: ${action} ${filePath}`;
 
-  // Print mode: block
+  // Print mode: ask the approval channel, or block
   if (!hasInteractiveUI(ctx)) {
+    const approval = await askApprovalChannel(state, ctx, record, {
+      tool: toolName,
+      command: filePath,
+      requiredLevel: "low",
+      reason: message,
+    });
+    if (approval !== null) return approval;
     return {
       block: true,
       reason: `Blocked by permission (${state.currentLevel}). ${action}: ${filePath}
@@ -552,8 +1862,9 @@ Use /permission low or /permission-mode ask to enable prompts.`
   }
 
   // Interactive mode: prompt
-  playPermissionSound();
-  const choice = await ctx.ui.select(
+  const choice = await promptUser(
+    ctx,
+    record,
     message,
     ["Allow once", "Allow all (Low)", "Cancel"]
   );
@@ -569,6 +1880,171 @@ Use /permission low or /permission-mode ask to enable prompts.`
   return { block: true, reason: "Cancelled" };
 }
 
+/** Prompt (or block) for a write to a path denied by writePaths; undefined when approved */
+async function checkProtectedPath(
+  opts: WriteToolCallOptions,
+  record: DecisionRecord,
+  pathCheck: WritePathCheck,
+  action: string
+): Promise<ToolCallResult> {
+  const { state, toolName, ctx } = opts;
+  if (!hasInteractiveUI(ctx) && pathCheck.onDeny !== "block") {
+    const approval = await askApprovalChannel(state, ctx, record, {
+      tool: toolName,
+      command: pathCheck.resolvedPath,
+      reason: `Protected path (${pathCheck.reason}): ${action} ${pathCheck.resolvedPath}`,
+    });
+    if (approval !== null) return approval;
+  }
+
+  if (!hasInteractiveUI(ctx) || pathCheck.onDeny === "block") {
+    return {
+      block: true,
+      reason: `Blocked by write path rules (${pathCheck.reason}). ${action}: ${pathCheck.resolvedPath}
+Writes to this path are not permitted. Choose a different location or ask the user to update writePaths.`
+    };
+  }
+
+  if (state.permissionMode === "block") {
+    return {
+      block: true,
+      reason: `Blocked by permission mode (block). Protected path (${pathCheck.reason}): ${pathCheck.resolvedPath}
+Use /permission-mode ask to enable confirmations.`
+    };
+  }
+
+  const choice = await promptUser(
+    ctx,
+    record,
+    `⚠️ Protected path (${pathCheck.reason}): ${action} ${pathCheck.resolvedPath}`,
+    ["Allow once", "Cancel"]
+  );
+
+  if (choice !== "Allow once") {
+    return { block: true, reason: "Cancelled" };
+  }
+  return undefined;
+}
+
+/** Summarize tool input for prompts and the audit log */
+function describeToolInput(input: Record<string, unknown>): string {
+  const text = JSON.stringify(input ?? {});
+  return text.length > 200 ? `${text.slice(0, 197)}...` : text;
+}
+
+/** Sensitive file a read/grep tool call would read */
+function getSecretToolReads(toolName: string, input: Record<string, unknown>, ctx: any): SecretPathMatch[] {
+  if (!SECRET_READ_TOOLS.has(toolName) || typeof input?.path !== "string") return [];
+  const match = checkSecretPath(input.path, ctx.cwd ?? process.cwd());
+  return match ? [match] : [];
+}
+
+/** Handle tool_call for tools other than bash/write/edit - check the tool policy */
+export async function handleToolCall(
+  state: PermissionState,
+  toolName: string,
+  input: Record<string, unknown>,
+  ctx: any
+): Promise<ToolCallResult> {
+  const { currentLevel: level, permissionMode: mode } = state;
+  const toolClass = classifyToolCall(toolName, input ?? {});
+  const record: DecisionRecord = {};
+  const result =
+    mode === "shadow"
+      ? recordShadowDecision(
+          state,
+          ctx,
+          record,
+          toolName,
+          describeToolInput(input),
+          withSecretShadow(evaluateShadowTool(toolName, input ?? {}, level), level, getSecretToolReads(toolName, input, ctx))
+        )
+      : await checkToolPolicy(state, toolName, input, toolClass.level, ctx, record);
+
+  auditDecision(
+    ctx,
+    {
+      tool: toolName,
+      command: describeToolInput(input),
+      classification: { level: toolClass.level, dangerous: false, capabilities: [] },
+      level,
+      mode,
+    },
+    result,
+    record
+  );
+  return result;
+}
+
+async function checkToolPolicy(
+  state: PermissionState,
+  toolName: string,
+  input: Record<string, unknown>,
+  requiredLevel: PermissionLevel,
+  ctx: any,
+  record: DecisionRecord
+): Promise<ToolCallResult> {
+  if (state.currentLevel === "bypassed") return undefined;
+
+  const policyResult = checkPolicyMaxLevel(loadSystemPolicy(), requiredLevel, `Tool: ${toolName} ${describeToolInput(input)}`);
+  if (policyResult) return policyResult;
+
+  const secrets = getSecretToolReads(toolName, input, ctx);
+  if (secrets.length > 0) {
+    const secretResult = await checkSecretAccess(state, ctx, record, toolName, describeToolInput(input), secrets);
+    if (secretResult) return secretResult;
+  }
+
+  if (LEVEL_INDEX[requiredLevel] <= LEVEL_INDEX[state.currentLevel]) return undefined;
+
+  const requiredInfo = LEVEL_INFO[requiredLevel];
+  const summary = `${toolName} ${describeToolInput(input)}`;
+
+  // Print mode: ask the approval channel, or block
+  if (!hasInteractiveUI(ctx)) {
+    const approval = await askApprovalChannel(state, ctx, record, {
+      tool: toolName,
+      command: describeToolInput(input),
+      requiredLevel,
+      reason: `Requires ${requiredInfo.label}: ${summary}`,
+    });
+    if (approval !== null) return approval;
+    return {
+      block: true,
+      reason: `Blocked by permission (${state.currentLevel}). Tool: ${summary}
+Allowed at this level: ${LEVEL_ALLOWED_DESC[state.currentLevel]}
+User can re-run with: PI_PERMISSION_LEVEL=${requiredLevel} pi -p "..."`
+    };
+  }
+
+  if (state.permissionMode === "block") {
+    return {
+      block: true,
+      reason: `Blocked by permission (${state.currentLevel}, mode: block). Tool: ${summary}
+Requires ${requiredInfo.label}. Allowed at this level: ${LEVEL_ALLOWED_DESC[state.currentLevel]}
+Use /permission ${requiredLevel} or /permission-mode ask to enable prompts.`
+    };
+  }
+
+  // Interactive mode: prompt
+  const choice = await promptUser(
+    ctx,
+    record,
+    `Requires ${requiredInfo.label}: ${summary}`,
+    ["Allow once", `Allow all (${requiredInfo.label})`, "Cancel"]
+  );
+
+  if (choice === "Allow once") return undefined;
+
+  if (choice === `Allow all (${requiredInfo.label})`) {
+    setLevel(state, requiredLevel, true, ctx);
+    ctx.ui.notify(`Permission → ${requiredInfo.label} (saved globally)`, "info");
+    return undefined;
+  }
+
+  return { block: true, reason: "Cancelled" };
+}
+
 // ============================================================================
 // Extension entry point
 // ============================================================================
@@ -586,13 +2062,44 @@ export default function (pi: ExtensionAPI) {
     handler: (args, ctx) => handlePermissionModeCommand(state, args, ctx),
   });
 
+  state.appendLevelEntry = (entry) => pi.appendEntry<PermissionLevelEntry>(PERMISSION_LEVEL_ENTRY, entry);
+  state.publishApprovalUrl = (url) => pi.events.emit(APPROVAL_URL_EVENT, { url });
+
   pi.on("session_start", async (_event, ctx) => {
     handleSessionStart(state, ctx);
+    await handleProjectConfigTrust(ctx);
+  });
+
+  pi.on("session_shutdown", async () => {
+    stopApprovalServer(state);
+  });
+
+  pi.on("session_switch", async (_event, ctx) => {
+    // Session approvals and temporary levels belong to the session they were granted in
+    state.allowedCommands.clear();
+    state.allowedPatterns = [];
+    state.shadowRecords = [];
+    clearElevation(state);
+    invalidateConfigCache();
+    restoreLevel(state, ctx);
+    updateStatus(state, ctx);
+  });
+
+  pi.on("session_tree", async (_event, ctx) => {
+    restoreLevel(state, ctx);
+    updateStatus(state, ctx);
+  });
+
+  pi.on("session_fork", async (_event, ctx) => {
+    restoreLevel(state, ctx);
+    updateStatus(state, ctx);
   });
 
   pi.on("tool_call", async (event, ctx) => {
+    checkElevationExpiry(state, ctx);
+
     if (event.toolName === "bash") {
-      return handleBashToolCall(state, event.input.command as string, ctx);
+      return handleBashToolInput(state, event.input, ctx);
     }
 
     if (event.toolName === "write" || event.toolName === "edit") {
@@ -604,6 +2111,6 @@ export default function (pi: ExtensionAPI) {
       });
     }
 
-    return undefined;
+    return handleToolCall(state, event.toolName, event.input, ctx);
   });
 }
@@ -15,6 +15,7 @@ export interface AgentConfig {
 	customTools?: string[];
 	model?: string;
 	permissionLevel?: string;
+	permissionProfile?: string;
 	systemPrompt: string;
 	source: "user" | "project" | "builtin";
 	filePath: string;
@@ -124,6 +125,7 @@ function loadAgentsFromDir(dir: string, source: "user" | "project"): AgentConfig
 			customTools: customTools && customTools.length > 0 ? customTools : undefined,
 			model: frontmatter.model,
 			permissionLevel: frontmatter["permission-level"],
+			permissionProfile: frontmatter["permission-profile"],
 			systemPrompt: body,
 			source,
 			filePath,
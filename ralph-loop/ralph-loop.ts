@@ -165,6 +165,9 @@ interface ActiveRun {
 
 type ActiveRunRegistration = (run: ActiveRun) => () => void;
 
+/** Emitted by the permission extension with the { url } of its approval server */
+const PERMISSION_APPROVAL_URL_EVENT = "permission:approval-url";
+
 function getFinalOutput(messages: Message[]): string {
 	for (let i = messages.length - 1; i >= 0; i--) {
 		const msg = messages[i];
@@ -490,6 +493,7 @@ async function runSingleAgent(
 	taskIndex?: number,
 	registerActiveRun?: ActiveRunRegistration,
 	initialFollowUps?: string[],
+	agentEnv?: NodeJS.ProcessEnv,
 ): Promise<SingleResult> {
 	const agent = agents.find((a) => a.name === agentName);
 
@@ -598,9 +602,9 @@ async function runSingleAgent(
 		let wasAborted = false;
 
 		const exitCode = await new Promise<number>((resolve) => {
-			const env = agent.permissionLevel
-				? { ...process.env, PI_PERMISSION_LEVEL: agent.permissionLevel }
-				: process.env;
+			const env: NodeJS.ProcessEnv = { ...process.env, ...agentEnv };
+			if (agent.permissionLevel) env.PI_PERMISSION_LEVEL = agent.permissionLevel;
+			if (agent.permissionProfile) env.PI_PERMISSION_PROFILE = agent.permissionProfile;
 			const proc = spawn("pi", args, { cwd: cwd ?? defaultCwd, shell: false, stdio: ["pipe", "pipe", "pipe"], env });
 			let buffer = "";
 			let resolved = false;
@@ -944,6 +948,7 @@ async function executeSubagentOnce(
 	onUpdate?: OnUpdateCallback,
 	registerActiveRun?: ActiveRunRegistration,
 	initialFollowUps?: string[],
+	agentEnv?: NodeJS.ProcessEnv,
 ): Promise<LoopExecutionResult> {
 	const agentScope: AgentScope = params.agentScope ?? "user";
 	const discovery = discoverAgents(ctx.cwd, agentScope);
@@ -1043,6 +1048,7 @@ async function executeSubagentOnce(
 				undefined,
 				registerActiveRun,
 				initialFollowUps,
+				agentEnv,
 			);
 			results.push(result);
 
@@ -1091,6 +1097,7 @@ async function executeSubagentOnce(
 			undefined,
 			registerActiveRun,
 			initialFollowUps,
+			agentEnv,
 		);
 		const isError = result.exitCode !== 0 || result.stopReason === "error" || result.stopReason === "aborted";
 		if (isError) {
@@ -1321,6 +1328,13 @@ export default function (pi: ExtensionAPI) {
 		lastDetails: null,
 	};
 
+	// Approval server of the permission extension: only spawned agents get its URL, not this process
+	const agentEnv: NodeJS.ProcessEnv = {};
+	pi.events?.on(PERMISSION_APPROVAL_URL_EVENT, (data: { url?: string } | undefined) => {
+		if (data?.url) agentEnv.PI_PERMISSION_APPROVAL_URL = data.url;
+		else delete agentEnv.PI_PERMISSION_APPROVAL_URL;
+	});
+
 	const activeRuns = new Set<ActiveRun>();
 	const registerActiveRun: ActiveRunRegistration = (run) => {
 		activeRuns.add(run);
@@ -1878,6 +1892,7 @@ export default function (pi: ExtensionAPI) {
 						iterationUpdate,
 						registerActiveRun,
 						queuedFollowUps,
+						agentEnv,
 					);
 				} catch (error: any) {
 					stopReason = mergedSignal?.aborted ? "aborted" : "error";